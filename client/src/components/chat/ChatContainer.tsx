@@ -2,6 +2,8 @@ import { useEffect, useState } from "react";
 import MessageHistory from "./MessageHistory";
 import MessageInput from "./MessageInput";
 import McpToolSelector from "./McpToolSelector";
+import ModelSelector from "./ModelSelector";
+import ContextStrategySelector from "./ContextStrategySelector";
 import { useChat } from "@/hooks/use-chat";
 import Sidebar from "@/components/sidebar/Sidebar";
 
@@ -16,23 +18,40 @@ export default function ChatContainer({
 }: ChatContainerProps) {
   const [selectedSystemPromptId, setSelectedSystemPromptId] = useState<number | undefined>(initialSystemPromptId);
   const [useMcpTools, setUseMcpTools] = useState(false);
+  const [selectedModel, setSelectedModel] = useState<string | undefined>();
   
   const {
     messages,
     conversations,
     activeConversationId,
     isLoading,
+    isWaitingForResponse,
+    context,
     inputValue,
     setInputValue,
     handleSendMessage,
+    editMessage,
+    regenerateMessage,
+    stopGeneration,
+    switchBranch,
+    focusedMessageId,
+    openSearchResult,
     selectConversation,
     startNewConversation
   } = useChat({
     conversationId: initialConversationId,
     systemPromptId: selectedSystemPromptId,
-    useMcpTools
+    useMcpTools,
+    model: selectedModel
   });
 
+  // 切换对话时显示该对话保存的模型
+  const activeConversation = conversations?.find(conv => conv.id === activeConversationId);
+  const activeConversationModel = activeConversation?.model;
+  useEffect(() => {
+    setSelectedModel(activeConversationModel ?? undefined);
+  }, [activeConversationId, activeConversationModel]);
+
   // 获取当前会话的标题
   const getActiveConversationTitle = () => {
     if (!activeConversationId || !conversations) return "新对话";
@@ -46,16 +65,36 @@ export default function ChatContainer({
         activeConversationId={activeConversationId}
         onSelectConversation={selectConversation}
         onNewConversation={startNewConversation}
+        onOpenSearchResult={openSearchResult}
       />
       
       <div className="flex-1 flex flex-col overflow-hidden">
-        <header className="h-14 border-b flex items-center px-4">
+        <header className="h-14 border-b flex items-center justify-between px-4">
           <h1 className="text-lg font-medium">{getActiveConversationTitle()}</h1>
+          <div className="flex items-center gap-2">
+            {activeConversation && (
+              <ContextStrategySelector
+                conversationId={activeConversation.id}
+                value={activeConversation.contextStrategy}
+              />
+            )}
+            <ModelSelector
+              conversationId={activeConversationId}
+              value={selectedModel}
+              onChange={setSelectedModel}
+            />
+          </div>
         </header>
         
         <MessageHistory 
           messages={messages} 
-          isLoading={isLoading} 
+          isLoading={isWaitingForResponse} 
+          context={context}
+          onEditMessage={editMessage}
+          onRegenerateMessage={regenerateMessage}
+          onSwitchBranch={switchBranch}
+          focusMessageId={focusedMessageId}
+          isBusy={isLoading}
         />
         
         <div className="px-4">
@@ -71,6 +110,7 @@ export default function ChatContainer({
           value={inputValue} 
           onChange={setInputValue} 
           onSend={handleSendMessage} 
+          onStop={stopGeneration}
           isLoading={isLoading}
         />
       </div>
@@ -0,0 +1,55 @@
+import { useMutation } from '@tanstack/react-query';
+import { History } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { toast } from '@/hooks/use-toast';
+import { contextStrategies, type ContextStrategy } from '@shared/schema';
+
+const STRATEGY_LABELS: Record<ContextStrategy, string> = {
+  'truncate': '超出上下文时丢弃较早消息',
+  'summarize': '超出上下文时摘要较早消息',
+};
+
+interface ContextStrategySelectorProps {
+  conversationId: number;
+  value: string;
+}
+
+export default function ContextStrategySelector({ conversationId, value }: ContextStrategySelectorProps) {
+  // 保存对话的上下文策略
+  const { mutate: updateContextStrategy } = useMutation({
+    mutationFn: async (contextStrategy: ContextStrategy) => {
+      const response = await apiRequest('PATCH', `/api/conversations/${conversationId}`, { contextStrategy });
+      if (!response.ok) {
+        throw new Error('Failed to update context strategy');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/conversations'] });
+    },
+    onError: (error) => {
+      toast({
+        title: '切换上下文策略失败',
+        description: error instanceof Error ? error.message : '更新对话设置时出错',
+        variant: 'destructive',
+      });
+    }
+  });
+
+  return (
+    <Select value={value} onValueChange={(strategy) => updateContextStrategy(strategy as ContextStrategy)}>
+      <SelectTrigger className="w-64 h-8 text-sm">
+        <History className="h-4 w-4 mr-2 text-gray-500" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {contextStrategies.map(strategy => (
+          <SelectItem key={strategy} value={strategy}>
+            {STRATEGY_LABELS[strategy]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
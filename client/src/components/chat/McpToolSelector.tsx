@@ -8,8 +8,6 @@ import { apiRequest, queryClient } from '@/lib/queryClient';
 import { toast } from '@/hooks/use-toast';
 import { Skeleton } from '@/components/ui/skeleton';
 
-const MOCK_USER_ID = 1; // 演示用，真实应用中应从认证获取
-
 interface McpToolSelectorProps {
   conversationId?: number;
   onToolsEnabled: (enabled: boolean) => void;
@@ -24,7 +22,7 @@ export default function McpToolSelector({ conversationId, onToolsEnabled }: McpT
   const { data: tools, isLoading: isLoadingTools } = useQuery({
     queryKey: ['/api/mcp-tools/enabled'],
     queryFn: async () => {
-      const response = await apiRequest('GET', `/api/mcp-tools/enabled?userId=${MOCK_USER_ID}`);
+      const response = await apiRequest('GET', '/api/mcp-tools/enabled');
       if (!response.ok) {
         throw new Error('Failed to fetch enabled MCP tools');
       }
@@ -170,6 +168,9 @@ export default function McpToolSelector({ conversationId, onToolsEnabled }: McpT
                   <p className="text-xs text-muted-foreground">
                     {tool.description}
                   </p>
+                  {!(tool.serverName && tool.toolName) && (
+                    <p className="text-xs text-red-500">未绑定MCP工具，启用后也不会提供给模型</p>
+                  )}
                 </div>
               </div>
             ))}
@@ -1,15 +1,29 @@
-import { useEffect, useRef, useState } from "react";
+import { Fragment, useEffect, useRef, useState } from "react";
 import { Message } from "@shared/schema";
-import { MessageSquare, User, WrenchIcon, ArrowRight } from "lucide-react";
+import { MessageSquare, User, WrenchIcon, ArrowRight, Check, X, History, ChevronLeft, ChevronRight, Pencil, RefreshCw } from "lucide-react";
 import LoadingDots from "@/components/ui/loading-dots";
 import ReactMarkdown from "react-markdown";
 import { Badge } from "@/components/ui/badge";
-import { useQuery } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+import type { ChatContextInfo, ConversationMessage } from "@/hooks/use-chat";
 
 interface MessageHistoryProps {
-  messages: Message[];
+  messages: ConversationMessage[];
   isLoading: boolean;
+  // 最近一轮的上下文信息，用于标出没有发送给模型的较早消息
+  context?: ChatContextInfo;
+  // 编辑用户消息、重新生成回复和切换版本；不提供时不显示对应操作
+  onEditMessage?: (messageId: number, content: string) => void;
+  onRegenerateMessage?: (messageId: number) => void;
+  onSwitchBranch?: (messageId: number) => void;
+  // 滚动到并标出这条消息（从搜索结果打开时），此时不自动滚动到底部
+  focusMessageId?: number | null;
+  // 正在生成回复时禁用这些操作
+  isBusy?: boolean;
 }
 
 // 工具调用类型
@@ -20,9 +34,78 @@ interface ToolCallType {
   result?: Record<string, unknown>;
 }
 
+// 助手消息中的工具调用：新格式为 { calls: [...] }，旧消息只有单个调用
+function getToolCalls(toolCall: unknown): ToolCallType[] {
+  if (!toolCall || typeof toolCall !== 'object') return [];
+  const { calls } = toolCall as { calls?: ToolCallType[] };
+  return Array.isArray(calls) ? calls : [toolCall as ToolCallType];
+}
+
+interface ToolCallProps {
+  toolCall: ToolCallType;
+  // 等待批准的工具消息ID，提供时显示批准/拒绝按钮
+  pendingMessageId?: number;
+}
+
 // 工具调用组件
-function ToolCall({ toolCall }: { toolCall: ToolCallType }) {
+function ToolCall({ toolCall, pendingMessageId }: ToolCallProps) {
   const [mcpTool, setMcpTool] = useState<{id: number, name: string, description: string} | null>(null);
+  const [parametersStr, setParametersStr] = useState(
+    JSON.stringify(toolCall?.parameters || {}, null, 2)
+  );
+  const [parametersError, setParametersError] = useState('');
+
+  // 批准或拒绝后对话会继续，刷新消息列表（第一条回复之后对话可能有了新标题）
+  const onResolved = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/messages'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/conversations'] });
+  };
+
+  const { mutate: approve, isPending: isApproving } = useMutation({
+    mutationFn: async (parameters: Record<string, unknown>) => {
+      const response = await apiRequest('POST', `/api/messages/${pendingMessageId}/approve`, { parameters });
+      if (!response.ok) {
+        throw new Error('Failed to approve tool call');
+      }
+      return response.json();
+    },
+    onSuccess: onResolved,
+    onError: (error) => {
+      toast({
+        title: '批准失败',
+        description: error instanceof Error ? error.message : '执行工具调用时出错',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const { mutate: reject, isPending: isRejecting } = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/messages/${pendingMessageId}/reject`, {});
+      if (!response.ok) {
+        throw new Error('Failed to reject tool call');
+      }
+      return response.json();
+    },
+    onSuccess: onResolved,
+    onError: (error) => {
+      toast({
+        title: '拒绝失败',
+        description: error instanceof Error ? error.message : '拒绝工具调用时出错',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleApprove = () => {
+    try {
+      const parameters = JSON.parse(parametersStr);
+      setParametersError('');
+      approve(parameters);
+    } catch (error) {
+      setParametersError('参数必须是有效的JSON');
+    }
+  };
   
   // 获取工具信息
   const { data: tool } = useQuery({
@@ -54,13 +137,49 @@ function ToolCall({ toolCall }: { toolCall: ToolCallType }) {
       <div className="flex items-center mb-2">
         <WrenchIcon className="h-4 w-4 mr-2 text-gray-600 dark:text-gray-400" />
         <span className="font-medium text-sm">
-          {mcpTool?.name || '工具调用'} 
-          <Badge className="ml-2 text-xs bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-100">
-            使用工具
-          </Badge>
+          {mcpTool?.name || toolCall.name || '工具调用'} 
+          {pendingMessageId ? (
+            <Badge className="ml-2 text-xs bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-100">
+              等待批准
+            </Badge>
+          ) : (
+            <Badge className="ml-2 text-xs bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-100">
+              使用工具
+            </Badge>
+          )}
         </span>
       </div>
-      {toolCall.parameters && (
+      {pendingMessageId ? (
+        <div className="mb-2">
+          <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">参数（可在批准前修改）:</div>
+          <Textarea
+            value={parametersStr}
+            onChange={(e) => setParametersStr(e.target.value)}
+            className="text-xs font-mono min-h-[80px]"
+            disabled={isApproving || isRejecting}
+          />
+          {parametersError && (
+            <p className="text-xs text-red-500 mt-1">{parametersError}</p>
+          )}
+          <div className="flex justify-end gap-2 mt-2 not-prose">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => reject()}
+              disabled={isApproving || isRejecting}
+            >
+              <X className="h-4 w-4 mr-1" /> 拒绝
+            </Button>
+            <Button
+              size="sm"
+              onClick={handleApprove}
+              disabled={isApproving || isRejecting}
+            >
+              <Check className="h-4 w-4 mr-1" /> 批准
+            </Button>
+          </div>
+        </div>
+      ) : toolCall.parameters && (
         <div className="mb-2">
           <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">参数:</div>
           <pre className="text-xs bg-gray-100 dark:bg-gray-800 p-2 rounded font-mono overflow-x-auto">
@@ -83,65 +202,255 @@ function ToolCall({ toolCall }: { toolCall: ToolCallType }) {
   );
 }
 
-export default function MessageHistory({ messages, isLoading }: MessageHistoryProps) {
+// 较早消息的摘要，显示在被摘要的最后一条消息之后
+function SummaryNotice({ summary }: { summary: Message }) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  return (
+    <div className="mb-6 border border-dashed border-gray-300 dark:border-gray-600 rounded-md p-3 bg-gray-50 dark:bg-gray-900 text-sm">
+      <button
+        type="button"
+        className="flex items-center w-full text-left text-gray-600 dark:text-gray-400"
+        onClick={() => setIsExpanded(!isExpanded)}
+      >
+        <History className="h-4 w-4 mr-2" />
+        以上消息已摘要，之后的回复基于摘要
+        <span className="ml-auto text-xs">{isExpanded ? '收起' : '查看摘要'}</span>
+      </button>
+      {isExpanded && (
+        <div className="prose dark:prose-invert prose-sm max-w-none mt-2">
+          <ReactMarkdown>{summary.content}</ReactMarkdown>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface VersionNavigatorProps {
+  versionIds: number[];
+  currentId: number;
+  onSwitch: (messageId: number) => void;
+  disabled?: boolean;
+}
+
+// 在同一位置的多个版本之间切换："< 2/3 >"
+function VersionNavigator({ versionIds, currentId, onSwitch, disabled }: VersionNavigatorProps) {
+  const index = versionIds.indexOf(currentId);
+
+  return (
+    <div className="flex items-center text-xs">
+      <button
+        type="button"
+        className="p-0.5 disabled:opacity-40"
+        disabled={disabled || index <= 0}
+        onClick={() => onSwitch(versionIds[index - 1])}
+        title="上一个版本"
+      >
+        <ChevronLeft className="h-3 w-3" />
+      </button>
+      <span>{index + 1}/{versionIds.length}</span>
+      <button
+        type="button"
+        className="p-0.5 disabled:opacity-40"
+        disabled={disabled || index >= versionIds.length - 1}
+        onClick={() => onSwitch(versionIds[index + 1])}
+        title="下一个版本"
+      >
+        <ChevronRight className="h-3 w-3" />
+      </button>
+    </div>
+  );
+}
+
+// 标出没有发送给模型的较早消息
+function ContextDivider({ context }: { context: ChatContextInfo }) {
+  return (
+    <div className="flex items-center mb-6 text-xs text-gray-500 dark:text-gray-400">
+      <div className="flex-1 border-t border-dashed border-gray-300 dark:border-gray-600" />
+      <span className="px-3">
+        {context.summarized
+          ? `较早的 ${context.omittedMessages} 条消息以摘要形式发送给模型`
+          : `较早的 ${context.omittedMessages} 条消息超出上下文窗口，未发送给模型`}
+      </span>
+      <div className="flex-1 border-t border-dashed border-gray-300 dark:border-gray-600" />
+    </div>
+  );
+}
+
+export default function MessageHistory({
+  messages,
+  isLoading,
+  context,
+  onEditMessage,
+  onRegenerateMessage,
+  onSwitchBranch,
+  focusMessageId,
+  isBusy
+}: MessageHistoryProps) {
   const containerRef = useRef<HTMLDivElement>(null);
+  const [editingMessageId, setEditingMessageId] = useState<number | null>(null);
+  const [draft, setDraft] = useState('');
   
   // Scroll to bottom when messages change
   useEffect(() => {
+    if (focusMessageId) return;
     if (containerRef.current) {
       containerRef.current.scrollTop = containerRef.current.scrollHeight;
     }
-  }, [messages, isLoading]);
+  }, [messages, isLoading, focusMessageId]);
+
+  // 消息加载后滚动到要定位的消息
+  useEffect(() => {
+    if (!focusMessageId) return;
+    containerRef.current
+      ?.querySelector(`[data-message-id="${focusMessageId}"]`)
+      ?.scrollIntoView({ block: 'center' });
+  }, [messages, focusMessageId]);
+
+  const summaries = messages.filter(message => message.role === 'summary');
+
+  const startEditing = (message: ConversationMessage) => {
+    setEditingMessageId(message.id);
+    setDraft(message.content);
+  };
+
+  const submitEdit = () => {
+    if (editingMessageId === null || !draft.trim()) return;
+    onEditMessage?.(editingMessageId, draft);
+    setEditingMessageId(null);
+  };
 
   return (
     <div 
       ref={containerRef}
       className="message-container flex-1 overflow-y-auto px-4 py-4 md:px-6 md:py-6"
     >
-      {messages.map((message, index) => (
-        <div 
-          key={index}
-          className={`flex items-start mb-6 ${message.role === 'user' ? 'justify-end' : ''}`}
-        >
-          {message.role === 'assistant' && (
-            <div className="w-8 h-8 rounded-full bg-accent dark:bg-dark-accent flex items-center justify-center text-white flex-shrink-0">
-              <MessageSquare className="w-5 h-5" />
-            </div>
-          )}
+      {messages.filter(message => message.role !== 'summary').map((message, index) => {
+        const versionIds = message.siblingIds || [];
+        const canEdit = !!onEditMessage && message.role === 'user' && message.id > 0;
+        const isInterrupted = message.role === 'assistant' && message.status === 'interrupted';
+        const canRegenerate = !!onRegenerateMessage && message.role === 'assistant' && message.id > 0 &&
+          (!!message.content || isInterrupted);
+        
+        return (
+          <Fragment key={index}>
+            {context && context.omittedMessages > 0 && message.id === context.firstMessageId && (
+              <ContextDivider context={context} />
+            )}
+            <div 
+              data-message-id={message.id}
+              className={`flex items-start mb-6 ${message.role === 'user' ? 'justify-end' : ''}`}
+            >
+              {message.role === 'assistant' && (
+                <div className="w-8 h-8 rounded-full bg-accent dark:bg-dark-accent flex items-center justify-center text-white flex-shrink-0">
+                  <MessageSquare className="w-5 h-5" />
+                </div>
+              )}
           
-          <div 
-            className={`${
-              message.role === 'user' 
-                ? 'mr-3 bg-accent dark:bg-dark-accent text-white dark:text-white' 
-                : 'ml-3 bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-gray-100'
-            } rounded-lg p-4 max-w-[85%] shadow-sm`}
-          >
-            <div className="prose dark:prose-invert prose-sm max-w-none">
-              <ReactMarkdown>{message.content}</ReactMarkdown>
+              <div 
+                className={`${
+                  message.role === 'user' 
+                    ? 'mr-3 bg-accent dark:bg-dark-accent text-white dark:text-white' 
+                    : 'ml-3 bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-gray-100'
+                } rounded-lg p-4 max-w-[85%] shadow-sm ${
+                  message.id === focusMessageId ? 'ring-2 ring-yellow-400' : ''
+                }`}
+              >
+                {editingMessageId === message.id ? (
+                  <div className="space-y-2">
+                    <Textarea
+                      value={draft}
+                      onChange={(e) => setDraft(e.target.value)}
+                      className="text-sm min-h-[80px] bg-white text-gray-900"
+                    />
+                    <div className="flex justify-end gap-2">
+                      <Button size="sm" variant="outline" className="text-gray-900" onClick={() => setEditingMessageId(null)}>
+                        取消
+                      </Button>
+                      <Button size="sm" variant="secondary" onClick={submitEdit} disabled={!draft.trim() || isBusy}>
+                        保存并发送
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="prose dark:prose-invert prose-sm max-w-none">
+                    <ReactMarkdown>{message.content}</ReactMarkdown>
               
-              {/* 如果是助手消息且有工具调用 */}
-              {message.role === 'assistant' && message.toolCall && (
-                <ToolCall toolCall={message.toolCall as ToolCallType} />
-              )}
+                    {/* 如果是助手消息且有工具调用 */}
+                    {message.role === 'assistant' && getToolCalls(message.toolCall).map((toolCall, i) => (
+                      <ToolCall key={i} toolCall={toolCall} />
+                    ))}
+              
+                    {/* 如果是等待批准的工具调用 */}
+                    {message.role === 'tool' && message.status === 'awaiting_approval' && (
+                      <ToolCall
+                        toolCall={message.toolCall as ToolCallType}
+                        pendingMessageId={message.id}
+                      />
+                    )}
+              
+                    {/* 如果是工具消息 */}
+                    {message.role === 'tool' && message.toolResult != null && (
+                      <div className="mt-2">
+                        <pre className="text-xs bg-gray-100 dark:bg-gray-800 p-2 rounded font-mono overflow-x-auto">
+                          {JSON.stringify(message.toolResult, null, 2)}
+                        </pre>
+                      </div>
+                    )}
               
-              {/* 如果是工具消息 */}
-              {message.role === 'tool' && message.toolResult && (
-                <div className="mt-2">
-                  <pre className="text-xs bg-gray-100 dark:bg-gray-800 p-2 rounded font-mono overflow-x-auto">
-                    {JSON.stringify(message.toolResult, null, 2)}
-                  </pre>
+                    {/* 生成被停止，只保留了停止前的部分 */}
+                    {isInterrupted && (
+                      <Badge variant="outline" className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                        已中断
+                      </Badge>
+                    )}
+
+                    {/* 离线时排队，恢复连接后发送 */}
+                    {message.pending && (
+                      <Badge variant="outline" className="mt-2 text-xs text-white/80 border-white/50">
+                        等待发送
+                      </Badge>
+                    )}
+                  </div>
+                )}
+              
+                {/* 版本切换、编辑和重新生成 */}
+                {editingMessageId !== message.id && (versionIds.length > 1 || canEdit || canRegenerate) && (
+                  <div className="flex items-center justify-end gap-2 mt-2 opacity-70">
+                    {versionIds.length > 1 && onSwitchBranch && (
+                      <VersionNavigator
+                        versionIds={versionIds}
+                        currentId={message.id}
+                        onSwitch={onSwitchBranch}
+                        disabled={isBusy}
+                      />
+                    )}
+                    {canEdit && (
+                      <button type="button" onClick={() => startEditing(message)} disabled={isBusy} title="编辑">
+                        <Pencil className="h-3 w-3" />
+                      </button>
+                    )}
+                    {canRegenerate && (
+                      <button type="button" onClick={() => onRegenerateMessage!(message.id)} disabled={isBusy} title="重新生成">
+                        <RefreshCw className="h-3 w-3" />
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+          
+              {message.role === 'user' && (
+                <div className="w-8 h-8 rounded-full bg-gray-200 dark:bg-gray-700 flex items-center justify-center text-gray-500 dark:text-gray-300 flex-shrink-0">
+                  <User className="w-5 h-5" />
                 </div>
               )}
             </div>
-          </div>
-          
-          {message.role === 'user' && (
-            <div className="w-8 h-8 rounded-full bg-gray-200 dark:bg-gray-700 flex items-center justify-center text-gray-500 dark:text-gray-300 flex-shrink-0">
-              <User className="w-5 h-5" />
-            </div>
-          )}
-        </div>
-      ))}
+            {summaries.filter(summary => summary.summarizedUntil === message.id).map(summary => (
+              <SummaryNotice key={summary.id} summary={summary} />
+            ))}
+          </Fragment>
+        );
+      })}
 
       {/* Loading indicator */}
       {isLoading && (
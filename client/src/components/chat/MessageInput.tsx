@@ -1,5 +1,5 @@
 import { FormEvent } from "react";
-import { Send } from "lucide-react";
+import { Send, Square } from "lucide-react";
 import TextareaAutosize from "@/components/ui/textarea-autosize";
 import { Button } from "@/components/ui/button";
 
@@ -7,6 +7,8 @@ interface MessageInputProps {
   value: string;
   onChange: (value: string) => void;
   onSend: () => void;
+  // 停止正在生成的回复；提供时生成期间显示停止按钮
+  onStop?: () => void;
   isLoading: boolean;
 }
 
@@ -14,6 +16,7 @@ export default function MessageInput({
   value, 
   onChange, 
   onSend, 
+  onStop,
   isLoading 
 }: MessageInputProps) {
   const handleSubmit = (e: FormEvent) => {
@@ -36,13 +39,25 @@ export default function MessageInput({
               disabled={isLoading}
             />
           </div>
-          <Button 
-            type="submit" 
-            className="p-3 rounded-lg bg-accent hover:bg-blue-600 dark:bg-dark-accent dark:hover:bg-blue-600 text-white"
-            disabled={isLoading || !value.trim()}
-          >
-            <Send className="w-5 h-5" />
-          </Button>
+          {isLoading && onStop ? (
+            <Button 
+              type="button" 
+              variant="destructive"
+              className="p-3 rounded-lg"
+              onClick={onStop}
+              title="停止生成"
+            >
+              <Square className="w-5 h-5" />
+            </Button>
+          ) : (
+            <Button 
+              type="submit" 
+              className="p-3 rounded-lg bg-accent hover:bg-blue-600 dark:bg-dark-accent dark:hover:bg-blue-600 text-white"
+              disabled={isLoading || !value.trim()}
+            >
+              <Send className="w-5 h-5" />
+            </Button>
+          )}
         </form>
         <p className="text-xs text-gray-500 dark:text-gray-400 mt-2 text-center">
           AI responses are generated via Supabase Edge Functions.
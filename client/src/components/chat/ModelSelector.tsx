@@ -0,0 +1,77 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Cpu } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { toast } from '@/hooks/use-toast';
+import type { LlmModel } from '@shared/schema';
+
+interface ModelSelectorProps {
+  conversationId?: number;
+  // 当前选择的模型名称；未选择时显示默认模型
+  value?: string | null;
+  onChange: (model: string) => void;
+}
+
+export default function ModelSelector({ conversationId, value, onChange }: ModelSelectorProps) {
+  // 获取可用模型列表
+  const { data: models } = useQuery({
+    queryKey: ['/api/models'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/models');
+      if (!response.ok) {
+        throw new Error('Failed to fetch models');
+      }
+      const data = await response.json();
+      return data.models as LlmModel[];
+    }
+  });
+
+  // 保存对话使用的模型
+  const { mutate: updateConversationModel } = useMutation({
+    mutationFn: async ({ id, model }: { id: number; model: string }) => {
+      const response = await apiRequest('PATCH', `/api/conversations/${id}`, { model });
+      if (!response.ok) {
+        throw new Error('Failed to update conversation model');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/conversations'] });
+    },
+    onError: (error) => {
+      toast({
+        title: '切换模型失败',
+        description: error instanceof Error ? error.message : '更新对话模型时出错',
+        variant: 'destructive',
+      });
+    }
+  });
+
+  if (!models || models.length === 0) return null;
+
+  const selected = value || models.find(m => m.isDefault)?.name || models[0].name;
+
+  const handleChange = (model: string) => {
+    onChange(model);
+    // 新对话在发送第一条消息时保存模型
+    if (conversationId) {
+      updateConversationModel({ id: conversationId, model });
+    }
+  };
+
+  return (
+    <Select value={selected} onValueChange={handleChange}>
+      <SelectTrigger className="w-56 h-8 text-sm">
+        <Cpu className="h-4 w-4 mr-2 text-gray-500" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {models.map(model => (
+          <SelectItem key={model.id} value={model.name}>
+            {model.displayName || model.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,313 @@
+import React, { useState } from 'react';
+import { KeyRound, Trash, Plus, Copy } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { toast } from '@/hooks/use-toast';
+import { ApiToken, ApiTokenRequest, ApiTokenScope, apiTokenScopes } from '@shared/schema';
+import { format } from 'date-fns';
+
+// 客户端拿到的令牌不包含哈希
+type PublicApiToken = Omit<ApiToken, 'tokenHash'>;
+
+const SCOPE_LABELS: Record<ApiTokenScope, string> = {
+  'chat': '聊天（发送消息、管理对话）',
+  'read': '只读（读取对话和消息）',
+  'tools:manage': '管理工具（包括对话启用的工具）、MCP服务器和模型',
+};
+
+interface ApiTokenFormProps {
+  onCreated: (secret: string) => void;
+  onClose: () => void;
+}
+
+function ApiTokenForm({ onCreated, onClose }: ApiTokenFormProps) {
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(['chat', 'read']);
+  const [expiresInDays, setExpiresInDays] = useState('90');
+
+  const { mutate: createToken, isPending } = useMutation({
+    mutationFn: async (data: ApiTokenRequest) => {
+      const response = await apiRequest('POST', '/api/tokens', data);
+      if (!response.ok) {
+        throw new Error('Failed to create API token');
+      }
+      return response.json();
+    },
+    onSuccess: (data: { secret: string }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/tokens'] });
+      onCreated(data.secret);
+    },
+    onError: (error) => {
+      toast({
+        title: '创建失败',
+        description: error instanceof Error ? error.message : '创建API令牌时出错',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setScopes(prev => checked ? [...prev, scope] : prev.filter(s => s !== scope));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim() || scopes.length === 0) {
+      toast({
+        title: '验证错误',
+        description: '名称不能为空，且至少选择一个权限范围',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const days = parseInt(expiresInDays, 10);
+    createToken({
+      name: name.trim(),
+      scopes: scopes as ApiTokenRequest['scopes'],
+      expiresInDays: days > 0 ? days : undefined,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <label htmlFor="token-name" className="block text-sm font-medium mb-1">
+          名称
+        </label>
+        <Input
+          id="token-name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="例如：CI 任务"
+          required
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium mb-1">
+          权限范围
+        </label>
+        <div className="space-y-2">
+          {apiTokenScopes.map((scope) => (
+            <div key={scope} className="flex items-center space-x-2">
+              <Checkbox
+                id={`token-scope-${scope}`}
+                checked={scopes.includes(scope)}
+                onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+              />
+              <label htmlFor={`token-scope-${scope}`} className="text-sm">
+                <span className="font-mono">{scope}</span> — {SCOPE_LABELS[scope]}
+              </label>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="token-expires" className="block text-sm font-medium mb-1">
+          有效期（天）
+        </label>
+        <Input
+          id="token-expires"
+          type="number"
+          min={0}
+          value={expiresInDays}
+          onChange={(e) => setExpiresInDays(e.target.value)}
+        />
+        <p className="text-xs text-muted-foreground mt-1">
+          留空或填 0 表示永不过期
+        </p>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" type="button" onClick={onClose}>
+          取消
+        </Button>
+        <Button type="submit" disabled={isPending}>
+          创建令牌
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+// 新令牌的明文只显示这一次
+function NewTokenNotice({ secret, onClose }: { secret: string; onClose: () => void }) {
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(secret);
+    toast({
+      title: '已复制',
+      description: 'API令牌已复制到剪贴板',
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm">
+        请立即复制并妥善保存此令牌，关闭后将无法再次查看。
+      </p>
+      <div className="flex gap-2">
+        <Input value={secret} readOnly className="font-mono text-xs" />
+        <Button variant="outline" size="icon" type="button" onClick={handleCopy} title="复制">
+          <Copy className="h-4 w-4" />
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        使用方式：<span className="font-mono">Authorization: Bearer &lt;令牌&gt;</span>
+      </p>
+      <div className="flex justify-end">
+        <Button type="button" onClick={onClose}>
+          完成
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default function ApiTokensManager() {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+
+  // 获取API令牌列表
+  const { data, isLoading } = useQuery({
+    queryKey: ['/api/tokens'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/tokens');
+      if (!response.ok) {
+        throw new Error('Failed to fetch API tokens');
+      }
+      const data = await response.json();
+      return (data.tokens || []) as PublicApiToken[];
+    }
+  });
+
+  // 撤销API令牌
+  const { mutate: revokeToken } = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('DELETE', `/api/tokens/${id}`);
+      if (!response.ok) {
+        throw new Error('Failed to revoke API token');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/tokens'] });
+      toast({
+        title: '令牌已撤销',
+        description: '使用该令牌的请求将被拒绝',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: '撤销失败',
+        description: error instanceof Error ? error.message : '撤销API令牌时出错',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleRevoke = (token: PublicApiToken) => {
+    if (window.confirm(`确定要撤销令牌 "${token.name}" 吗？`)) {
+      revokeToken(token.id);
+    }
+  };
+
+  const handleCloseDialog = () => {
+    setIsDialogOpen(false);
+    setNewSecret(null);
+  };
+
+  const isExpired = (token: PublicApiToken) =>
+    !!token.expiresAt && new Date(token.expiresAt).getTime() <= Date.now();
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-bold">API 令牌</h2>
+        <Dialog open={isDialogOpen} onOpenChange={(open) => open ? setIsDialogOpen(true) : handleCloseDialog()}>
+          <DialogTrigger asChild>
+            <Button variant="outline" size="sm">
+              <Plus className="h-4 w-4 mr-1" /> 新增
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="sm:max-w-[500px]">
+            <DialogHeader>
+              <DialogTitle>{newSecret ? '令牌已创建' : '创建API令牌'}</DialogTitle>
+            </DialogHeader>
+            {newSecret ? (
+              <NewTokenNotice secret={newSecret} onClose={handleCloseDialog} />
+            ) : (
+              <ApiTokenForm onCreated={setNewSecret} onClose={handleCloseDialog} />
+            )}
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        脚本和CI任务可以使用API令牌访问 /api/chat 等接口。
+      </p>
+
+      {isLoading ? (
+        <div className="text-center py-4">加载中...</div>
+      ) : data && data.length > 0 ? (
+        <div className="space-y-3">
+          {data.map((token) => (
+            <div key={token.id} className="border rounded-md p-3 border-gray-300 dark:border-gray-700">
+              <div className="flex justify-between items-start mb-2">
+                <div className="flex items-center">
+                  <KeyRound className="h-5 w-5 mr-2 text-gray-600 dark:text-gray-300" />
+                  <h3 className="font-medium">
+                    {token.name}
+                    {isExpired(token) && (
+                      <Badge className="ml-2 bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100">
+                        已过期
+                      </Badge>
+                    )}
+                  </h3>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => handleRevoke(token)}
+                  title="撤销"
+                >
+                  <Trash className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="text-xs font-mono text-gray-500 dark:text-gray-400 mb-2">
+                {token.tokenPrefix}…
+              </div>
+              <div className="flex flex-wrap gap-1 mb-2">
+                {token.scopes.map((scope) => (
+                  <Badge key={scope} variant="outline" className="text-xs font-mono">
+                    {scope}
+                  </Badge>
+                ))}
+              </div>
+              <div className="text-xs text-gray-500 dark:text-gray-400 space-y-0.5">
+                <div>
+                  过期时间：{token.expiresAt ? format(new Date(token.expiresAt), 'yyyy-MM-dd') : '永不过期'}
+                </div>
+                <div>
+                  最后使用：{token.lastUsedAt ? format(new Date(token.lastUsedAt), 'yyyy-MM-dd HH:mm') : '从未使用'}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-4 text-gray-500 dark:text-gray-400">
+          还没有API令牌
+        </div>
+      )}
+    </div>
+  );
+}
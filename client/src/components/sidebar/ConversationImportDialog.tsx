@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { Upload } from 'lucide-react';
+import { useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { toast } from '@/hooks/use-toast';
+import type { ConversationImportItem } from '@shared/schema';
+
+const SOURCE_LABELS: Record<ConversationImportItem['source'], string> = {
+  app: '本应用',
+  chatgpt: 'ChatGPT',
+};
+
+function ImportStatusBadge({ item }: { item: ConversationImportItem }) {
+  switch (item.status) {
+    case 'create':
+      return <Badge className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100">将导入</Badge>;
+    case 'skip':
+      return <Badge variant="secondary">已导入过</Badge>;
+    case 'invalid':
+      return <Badge variant="destructive" title={item.error}>无法读取</Badge>;
+  }
+}
+
+// 从导出文件导入对话：先预览（dryRun），确认后再导入
+export default function ConversationImportDialog() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [data, setData] = useState<unknown>(null);
+  const [preview, setPreview] = useState<ConversationImportItem[] | null>(null);
+
+  const { mutate: importConversations, isPending } = useMutation({
+    mutationFn: async ({ data, dryRun }: { data: unknown; dryRun: boolean }) => {
+      const response = await apiRequest('POST', '/api/conversations/import', { data, dryRun });
+      if (!response.ok) {
+        throw new Error('Failed to import conversations');
+      }
+      const result = await response.json();
+      return result.conversations as ConversationImportItem[];
+    },
+    onSuccess: (items, { dryRun }) => {
+      if (dryRun) {
+        setPreview(items);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/conversations'] });
+      const created = items.filter(item => item.status === 'create').length;
+      toast({
+        title: '导入完成',
+        description: `已导入 ${created} 个对话`,
+      });
+      handleOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: '导入失败',
+        description: error instanceof Error ? error.message : '导入对话时出错',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) {
+      setData(null);
+      setPreview(null);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setPreview(null);
+    if (!file) return;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await file.text());
+    } catch {
+      toast({
+        title: '无法读取文件',
+        description: '请选择 JSON 格式的导出文件',
+        variant: 'destructive',
+      });
+      return;
+    }
+    setData(parsed);
+    importConversations({ data: parsed, dryRun: true });
+  };
+
+  const createCount = preview?.filter(item => item.status === 'create').length ?? 0;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Upload className="h-4 w-4 mr-1" /> 导入
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>导入对话</DialogTitle>
+          <DialogDescription>
+            支持本应用导出的 JSON 文件和 ChatGPT 导出的 conversations.json。已经导入过的对话会被跳过。
+          </DialogDescription>
+        </DialogHeader>
+        <Input type="file" accept=".json,application/json" onChange={handleFileChange} disabled={isPending} />
+
+        {isPending && !preview && <div className="text-center py-2 text-sm">读取中...</div>}
+
+        {preview && (
+          <div className="space-y-2">
+            <div className="text-sm text-muted-foreground">
+              共 {preview.length} 个对话，将导入 {createCount} 个
+            </div>
+            <div className="max-h-72 overflow-y-auto space-y-1">
+              {preview.map((item, index) => (
+                <div key={index} className="flex items-center justify-between gap-2 rounded-md px-2 py-1 text-sm hover:bg-gray-100 dark:hover:bg-gray-800">
+                  <div className="overflow-hidden">
+                    <div className="truncate">{item.title || '（无标题）'}</div>
+                    <div className="text-xs text-gray-500 truncate">
+                      {item.status === 'invalid'
+                        ? item.error
+                        : `${SOURCE_LABELS[item.source]} · ${item.messageCount} 条消息`}
+                    </div>
+                  </div>
+                  <ImportStatusBadge item={item} />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            取消
+          </Button>
+          <Button
+            onClick={() => importConversations({ data, dryRun: false })}
+            disabled={!preview || createCount === 0 || isPending}
+          >
+            {isPending && preview ? '导入中...' : `导入 ${createCount} 个对话`}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,16 +1,24 @@
 import React, { useState } from 'react';
-import { MessageSquare, Edit, Trash, Plus } from 'lucide-react';
+import { MessageSquare, Edit, Trash, Plus, Sparkles, Download } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { Input } from '@/components/ui/input';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { toast } from '@/hooks/use-toast';
-import { Conversation } from '@shared/schema';
+import { Conversation, type ConversationExportFormat } from '@shared/schema';
 import { format } from 'date-fns';
+import ConversationImportDialog from './ConversationImportDialog';
 
-// 演示用
-const MOCK_USER_ID = 1;
+// 列表接口附带对话的最新滚动摘要
+type ConversationListItem = Conversation & { summary: string | null };
+
+const EXPORT_FORMAT_LABELS: Record<ConversationExportFormat, string> = {
+  md: 'Markdown',
+  html: 'HTML',
+  json: 'JSON（可重新导入）',
+};
 
 interface ConversationListProps {
   activeConversationId?: number;
@@ -31,12 +39,12 @@ export default function ConversationList({
   const { data, isLoading } = useQuery({
     queryKey: ['/api/conversations'],
     queryFn: async () => {
-      const response = await apiRequest('GET', `/api/conversations?userId=${MOCK_USER_ID}`);
+      const response = await apiRequest('GET', '/api/conversations');
       if (!response.ok) {
         throw new Error('Failed to fetch conversations');
       }
       const data = await response.json();
-      return data.conversations as Conversation[];
+      return data.conversations as ConversationListItem[];
     }
   });
 
@@ -66,6 +74,31 @@ export default function ConversationList({
     },
   });
 
+  // 让模型重新生成对话标题
+  const { mutate: regenerateTitle, isPending: isRegeneratingTitle } = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('POST', `/api/conversations/${id}/title`);
+      if (!response.ok) {
+        throw new Error('Failed to regenerate title');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/conversations'] });
+      toast({
+        title: '已更新',
+        description: '已重新生成对话标题',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: '生成标题失败',
+        description: error instanceof Error ? error.message : '重新生成标题时出错',
+        variant: 'destructive',
+      });
+    },
+  });
+
   // 删除对话
   const { mutate: deleteConversation } = useMutation({
     mutationFn: async (id: number) => {
@@ -103,6 +136,11 @@ export default function ConversationList({
     setIsEditDialogOpen(true);
   };
 
+  const handleRegenerateTitleClick = (id: number, e: React.MouseEvent) => {
+    e.stopPropagation();
+    regenerateTitle(id);
+  };
+
   const handleDeleteClick = (id: number, e: React.MouseEvent) => {
     e.stopPropagation();
     if (window.confirm('确定要删除这个对话吗？')) {
@@ -126,9 +164,12 @@ export default function ConversationList({
     <div className="space-y-4">
       <div className="flex justify-between items-center mb-2">
         <h2 className="text-xl font-bold">对话列表</h2>
-        <Button variant="outline" size="sm" onClick={onNewConversation}>
-          <Plus className="h-4 w-4 mr-1" /> 新对话
-        </Button>
+        <div className="flex gap-2">
+          <ConversationImportDialog />
+          <Button variant="outline" size="sm" onClick={onNewConversation}>
+            <Plus className="h-4 w-4 mr-1" /> 新对话
+          </Button>
+        </div>
       </div>
 
       {/* 编辑对话标题对话框 */}
@@ -176,12 +217,50 @@ export default function ConversationList({
                 <MessageSquare className="h-5 w-5 text-gray-500" />
                 <div className="overflow-hidden">
                   <div className="font-medium truncate">{conversation.title}</div>
+                  {conversation.summary && (
+                    <div className="text-xs text-gray-500 truncate" title={conversation.summary}>
+                      {conversation.summary}
+                    </div>
+                  )}
                   <div className="text-xs text-gray-500">
                     {formatDate(conversation.timestamp)}
                   </div>
                 </div>
               </div>
               <div className="flex space-x-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  onClick={(e) => handleRegenerateTitleClick(conversation.id, e)}
+                  disabled={isRegeneratingTitle}
+                  title="重新生成标题"
+                >
+                  <Sparkles className="h-4 w-4" />
+                </Button>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      onClick={(e) => e.stopPropagation()}
+                      title="导出"
+                    >
+                      <Download className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  {/* 菜单渲染在列表项之外，但点击事件仍会冒泡到列表项 */}
+                  <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                    {(Object.keys(EXPORT_FORMAT_LABELS) as ConversationExportFormat[]).map((exportFormat) => (
+                      <DropdownMenuItem key={exportFormat} asChild>
+                        <a href={`/api/conversations/${conversation.id}/export?format=${exportFormat}`} download>
+                          导出为 {EXPORT_FORMAT_LABELS[exportFormat]}
+                        </a>
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
                 <Button
                   variant="ghost"
                   size="sm"
@@ -0,0 +1,239 @@
+import React, { useEffect, useState } from 'react';
+import { Search, SlidersHorizontal, X, MessageSquare } from 'lucide-react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { apiRequest } from '@/lib/queryClient';
+import type { McpTool, SearchResult, SystemPrompt } from '@shared/schema';
+
+const ROLE_LABELS: Record<string, string> = {
+  user: '用户',
+  assistant: '助手',
+  tool: '工具',
+};
+
+// Select 不允许空值，用它表示“不限”
+const ANY = 'any';
+
+interface SearchFilters {
+  role: string;
+  from: string;
+  to: string;
+  systemPromptId: string;
+  tool: string;
+}
+
+const EMPTY_FILTERS: SearchFilters = { role: ANY, from: '', to: '', systemPromptId: ANY, tool: ANY };
+
+interface ConversationSearchProps {
+  // messageId 为 null 表示对话标题命中
+  onOpenResult: (conversationId: number, messageId: number | null) => void;
+  // 没有输入搜索词时显示的内容（对话列表）
+  children: React.ReactNode;
+}
+
+// 按 highlights 给片段中命中的词加上标记
+function HighlightedSnippet({ snippet, highlights }: Pick<SearchResult, 'snippet' | 'highlights'>) {
+  const parts: React.ReactNode[] = [];
+  let offset = 0;
+  highlights.forEach(([start, end], i) => {
+    if (start < offset) return;
+    parts.push(snippet.slice(offset, start));
+    parts.push(
+      <mark key={i} className="bg-yellow-200 dark:bg-yellow-700 dark:text-white rounded-sm">
+        {snippet.slice(start, end)}
+      </mark>
+    );
+    offset = end;
+  });
+  parts.push(snippet.slice(offset));
+  return <>{parts}</>;
+}
+
+export default function ConversationSearch({ onOpenResult, children }: ConversationSearchProps) {
+  const [input, setInput] = useState('');
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<SearchFilters>(EMPTY_FILTERS);
+
+  // 停止输入一会儿后再搜索
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(input.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [input]);
+
+  const { data: systemPrompts } = useQuery({
+    queryKey: ['/api/system-prompts'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/system-prompts');
+      if (!response.ok) {
+        throw new Error('Failed to fetch system prompts');
+      }
+      const data = await response.json();
+      return data.prompts as SystemPrompt[];
+    }
+  });
+
+  const { data: tools } = useQuery({
+    queryKey: ['/api/mcp-tools'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/mcp-tools');
+      if (!response.ok) {
+        throw new Error('Failed to fetch MCP tools');
+      }
+      const data = await response.json();
+      return (data.tools || []) as McpTool[];
+    }
+  });
+  const toolNames = Array.from(new Set((tools || []).map(tool => tool.toolName).filter((name): name is string => !!name)));
+
+  const params = new URLSearchParams({ q: query });
+  if (filters.role !== ANY) params.set('role', filters.role);
+  // 日期按本地时间计算，结束日期包含当天
+  if (filters.from) params.set('from', new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set('to', new Date(`${filters.to}T23:59:59.999`).toISOString());
+  if (filters.systemPromptId !== ANY) params.set('systemPromptId', filters.systemPromptId);
+  if (filters.tool !== ANY) params.set('tool', filters.tool);
+  const searchUrl = `/api/search?${params}`;
+
+  const { data: results, isFetching } = useQuery({
+    queryKey: ['/api/search', searchUrl],
+    queryFn: async () => {
+      const response = await apiRequest('GET', searchUrl);
+      if (!response.ok) {
+        throw new Error('Failed to search');
+      }
+      const data = await response.json();
+      return data.results as SearchResult[];
+    },
+    enabled: !!query
+  });
+
+  const activeFilterCount = (Object.keys(filters) as (keyof SearchFilters)[])
+    .filter(key => filters[key] !== EMPTY_FILTERS[key]).length;
+  const setFilter = (key: keyof SearchFilters, value: string) => setFilters(prev => ({ ...prev, [key]: value }));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-gray-500" />
+          <Input
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="搜索对话和消息"
+            className="pl-8 pr-8"
+          />
+          {input && (
+            <button
+              type="button"
+              className="absolute right-2 top-2.5 text-gray-500"
+              onClick={() => setInput('')}
+              title="清除"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="icon" className="relative" title="筛选">
+              <SlidersHorizontal className="h-4 w-4" />
+              {activeFilterCount > 0 && (
+                <span className="absolute -top-1 -right-1 h-4 w-4 rounded-full bg-accent text-[10px] text-white">
+                  {activeFilterCount}
+                </span>
+              )}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-72 space-y-3" align="end">
+            <div className="space-y-1">
+              <Label>角色</Label>
+              <Select value={filters.role} onValueChange={(value) => setFilter('role', value)}>
+                <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>全部（含对话标题）</SelectItem>
+                  {Object.entries(ROLE_LABELS).map(([role, label]) => (
+                    <SelectItem key={role} value={role}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label>开始日期</Label>
+                <Input type="date" className="h-8" value={filters.from} onChange={(e) => setFilter('from', e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label>结束日期</Label>
+                <Input type="date" className="h-8" value={filters.to} onChange={(e) => setFilter('to', e.target.value)} />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label>系统提示</Label>
+              <Select value={filters.systemPromptId} onValueChange={(value) => setFilter('systemPromptId', value)}>
+                <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>不限</SelectItem>
+                  {systemPrompts?.map(prompt => (
+                    <SelectItem key={prompt.id} value={String(prompt.id)}>{prompt.title}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>使用过的工具</Label>
+              <Select value={filters.tool} onValueChange={(value) => setFilter('tool', value)}>
+                <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>不限</SelectItem>
+                  {toolNames.map(name => (
+                    <SelectItem key={name} value={name}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {activeFilterCount > 0 && (
+              <Button variant="ghost" size="sm" className="w-full" onClick={() => setFilters(EMPTY_FILTERS)}>
+                清除筛选
+              </Button>
+            )}
+          </PopoverContent>
+        </Popover>
+      </div>
+
+      {!query ? (
+        children
+      ) : isFetching && !results ? (
+        <div className="text-center py-4">搜索中...</div>
+      ) : results && results.length > 0 ? (
+        <div className="space-y-2">
+          {results.map(result => (
+            <div
+              key={result.messageId ?? `conversation-${result.conversationId}`}
+              className="rounded-md px-3 py-2 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800"
+              onClick={() => onOpenResult(result.conversationId, result.messageId)}
+            >
+              <div className="flex items-center gap-2 text-xs text-gray-500">
+                <MessageSquare className="h-3 w-3 flex-shrink-0" />
+                <span className="truncate">{result.conversationTitle}</span>
+                {result.role && <span className="flex-shrink-0">· {ROLE_LABELS[result.role] ?? result.role}</span>}
+                <span className="ml-auto flex-shrink-0">{format(new Date(result.timestamp), 'yyyy-MM-dd')}</span>
+              </div>
+              <div className={`text-sm mt-1 break-words ${result.messageId === null ? 'font-medium' : 'line-clamp-3'}`}>
+                <HighlightedSnippet snippet={result.snippet} highlights={result.highlights} />
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-4 text-muted-foreground">
+          <p>没有找到匹配的内容</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,467 @@
+import React, { useState } from 'react';
+import { Server, Trash, Edit, Plus, RotateCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { toast } from '@/hooks/use-toast';
+import { McpServer, McpServerRequest, mcpServerTransports } from '@shared/schema';
+
+// 服务器不返回环境变量的值，只返回变量名
+type McpServerWithStatus = Omit<McpServer, 'env'> & {
+  envKeys: string[];
+  status: {
+    connected: boolean;
+    error?: string;
+    tools: string[];
+  };
+};
+
+interface McpServerFormProps {
+  server?: McpServerWithStatus;
+  onClose: () => void;
+}
+
+function McpServerForm({ server, onClose }: McpServerFormProps) {
+  const [name, setName] = useState(server?.name || '');
+  const [command, setCommand] = useState(server?.command || '');
+  const [argsStr, setArgsStr] = useState((server?.args || []).join('\n'));
+  // 编辑时留空表示保留现有的环境变量
+  const [envStr, setEnvStr] = useState(server ? '' : '{}');
+  const [transport, setTransport] = useState(server?.transport || 'stdio');
+  const [autoApproveStr, setAutoApproveStr] = useState((server?.autoApprove || []).join(', '));
+  const [isEnabled, setIsEnabled] = useState(!server?.disabled);
+  const [envError, setEnvError] = useState('');
+
+  const onSaved = (data: { server: McpServerWithStatus }) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/mcp-servers'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/mcp-tools/available'] });
+    if (data.server.status.error) {
+      toast({
+        title: '服务器启动失败',
+        description: data.server.status.error,
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: '服务器已保存',
+        description: data.server.disabled
+          ? 'MCP服务器已保存（已禁用）'
+          : `MCP服务器已启动，提供 ${data.server.status.tools.length} 个工具`,
+      });
+    }
+    onClose();
+  };
+
+  const { mutate: createServer, isPending: isCreating } = useMutation({
+    mutationFn: async (data: McpServerRequest) => {
+      const response = await apiRequest('POST', '/api/mcp-servers', data);
+      if (!response.ok) {
+        throw new Error('Failed to create MCP server');
+      }
+      return response.json();
+    },
+    onSuccess: onSaved,
+    onError: (error) => {
+      toast({
+        title: '创建失败',
+        description: error instanceof Error ? error.message : '创建MCP服务器时出错',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const { mutate: updateServer, isPending: isUpdating } = useMutation({
+    mutationFn: async (data: McpServerRequest & { id: number }) => {
+      const { id, ...rest } = data;
+      const response = await apiRequest('PATCH', `/api/mcp-servers/${id}`, rest);
+      if (!response.ok) {
+        throw new Error('Failed to update MCP server');
+      }
+      return response.json();
+    },
+    onSuccess: onSaved,
+    onError: (error) => {
+      toast({
+        title: '更新失败',
+        description: error instanceof Error ? error.message : '更新MCP服务器时出错',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const validateEnv = () => {
+    if (server && !envStr.trim()) {
+      setEnvError('');
+      return true;
+    }
+    try {
+      const env = JSON.parse(envStr);
+      if (typeof env !== 'object' || env === null || Array.isArray(env)) {
+        throw new Error('env must be an object');
+      }
+      setEnvError('');
+      return true;
+    } catch (error) {
+      setEnvError('环境变量必须是有效的JSON对象');
+      return false;
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim() || !command.trim()) {
+      toast({
+        title: '验证错误',
+        description: '名称和命令不能为空',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (!validateEnv()) {
+      return;
+    }
+
+    const data: McpServerRequest = {
+      name: name.trim(),
+      command: command.trim(),
+      args: argsStr.split('\n').map(arg => arg.trim()).filter(Boolean),
+      ...(envStr.trim() ? { env: JSON.parse(envStr) } : {}),
+      transport: transport as McpServerRequest['transport'],
+      disabled: !isEnabled,
+      autoApprove: autoApproveStr.split(',').map(tool => tool.trim()).filter(Boolean),
+    };
+
+    if (server?.id) {
+      updateServer({ ...data, id: server.id });
+    } else {
+      createServer(data);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <label htmlFor="server-name" className="block text-sm font-medium mb-1">
+          名称
+        </label>
+        <Input
+          id="server-name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="输入服务器名称"
+          required
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium mb-1">
+          传输方式
+        </label>
+        <Select value={transport} onValueChange={setTransport}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {mcpServerTransports.map((t) => (
+              <SelectItem key={t} value={t}>{t}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div>
+        <label htmlFor="server-command" className="block text-sm font-medium mb-1">
+          {transport === 'stdio' ? '命令' : 'URL'}
+        </label>
+        <Input
+          id="server-command"
+          value={command}
+          onChange={(e) => setCommand(e.target.value)}
+          placeholder={transport === 'stdio' ? 'npx' : 'http://localhost:3001/sse'}
+          className="font-mono text-sm"
+          required
+        />
+      </div>
+
+      {transport === 'stdio' && (
+        <>
+          <div>
+            <label htmlFor="server-args" className="block text-sm font-medium mb-1">
+              参数
+            </label>
+            <Textarea
+              id="server-args"
+              value={argsStr}
+              onChange={(e) => setArgsStr(e.target.value)}
+              placeholder="tavily-mcp"
+              className="min-h-[80px] font-mono text-sm"
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              每行一个参数
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="server-env" className="block text-sm font-medium mb-1">
+              环境变量 (JSON)
+            </label>
+            <Textarea
+              id="server-env"
+              value={envStr}
+              onChange={(e) => setEnvStr(e.target.value)}
+              placeholder='{"API_KEY": "..."}'
+              className="min-h-[80px] font-mono text-sm"
+              onBlur={validateEnv}
+            />
+            {server && (
+              <p className="text-xs text-muted-foreground mt-1">
+                留空则保留现有的环境变量
+                {server.envKeys.length > 0 && `（${server.envKeys.join(', ')}）`}；填写后整体替换
+              </p>
+            )}
+            {envError && (
+              <p className="text-sm text-red-500 mt-1">{envError}</p>
+            )}
+          </div>
+        </>
+      )}
+
+      <div>
+        <label htmlFor="server-auto-approve" className="block text-sm font-medium mb-1">
+          自动批准的工具
+        </label>
+        <Input
+          id="server-auto-approve"
+          value={autoApproveStr}
+          onChange={(e) => setAutoApproveStr(e.target.value)}
+          placeholder="get_weather, get_city_info"
+        />
+        <p className="text-xs text-muted-foreground mt-1">
+          多个工具名用逗号分隔
+        </p>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Switch
+          id="server-enabled"
+          checked={isEnabled}
+          onCheckedChange={setIsEnabled}
+        />
+        <label htmlFor="server-enabled" className="text-sm">
+          启用此服务器
+        </label>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" type="button" onClick={onClose}>
+          取消
+        </Button>
+        <Button type="submit" disabled={isCreating || isUpdating}>
+          {server ? '保存并重启' : '创建并启动'}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+export default function McpServersManager() {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [selectedServer, setSelectedServer] = useState<McpServerWithStatus | undefined>(undefined);
+
+  // 获取MCP服务器列表
+  const { data, isLoading } = useQuery({
+    queryKey: ['/api/mcp-servers'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/mcp-servers');
+      if (!response.ok) {
+        throw new Error('Failed to fetch MCP servers');
+      }
+      const data = await response.json();
+      return (data.servers || []) as McpServerWithStatus[];
+    }
+  });
+
+  // 删除MCP服务器
+  const { mutate: deleteServer } = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('DELETE', `/api/mcp-servers/${id}`);
+      if (!response.ok) {
+        throw new Error('Failed to delete MCP server');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/mcp-servers'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/mcp-tools/available'] });
+      toast({
+        title: '服务器已删除',
+        description: 'MCP服务器已停止并删除',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: '删除失败',
+        description: error instanceof Error ? error.message : '删除MCP服务器时出错',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // 重启MCP服务器
+  const { mutate: restartServer } = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('POST', `/api/mcp-servers/${id}/restart`);
+      if (!response.ok) {
+        throw new Error('Failed to restart MCP server');
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/mcp-servers'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/mcp-tools/available'] });
+      toast({
+        title: '服务器已重启',
+        description: 'MCP服务器已重启，工具列表已刷新',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: '重启失败',
+        description: error instanceof Error ? error.message : '重启MCP服务器时出错',
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const handleEdit = (server: McpServerWithStatus) => {
+    setSelectedServer(server);
+    setIsDialogOpen(true);
+  };
+
+  const handleDelete = (server: McpServerWithStatus) => {
+    if (window.confirm(`确定要删除服务器 "${server.name}" 吗？`)) {
+      deleteServer(server.id);
+    }
+  };
+
+  const handleCloseDialog = () => {
+    setIsDialogOpen(false);
+    setSelectedServer(undefined);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-bold">MCP 服务器</h2>
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogTrigger asChild>
+            <Button variant="outline" size="sm" onClick={() => setSelectedServer(undefined)}>
+              <Plus className="h-4 w-4 mr-1" /> 新增
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{selectedServer ? '编辑MCP服务器' : '添加MCP服务器'}</DialogTitle>
+            </DialogHeader>
+            <McpServerForm server={selectedServer} onClose={handleCloseDialog} />
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-4">加载中...</div>
+      ) : data && data.length > 0 ? (
+        <div className="space-y-3">
+          {data.map((server) => (
+            <div
+              key={server.id}
+              className={`border rounded-md p-3 ${
+                server.status.connected ? 'border-green-400 dark:border-green-600' : 'border-gray-300 dark:border-gray-700'
+              }`}
+            >
+              <div className="flex justify-between items-start mb-2">
+                <div className="flex items-center">
+                  <Server className="h-5 w-5 mr-2 text-gray-600 dark:text-gray-300" />
+                  <h3 className="font-medium">
+                    {server.name}
+                    {server.disabled ? (
+                      <Badge className="ml-2 bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-300">
+                        已禁用
+                      </Badge>
+                    ) : server.status.connected ? (
+                      <Badge className="ml-2 bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100">
+                        已连接
+                      </Badge>
+                    ) : (
+                      <Badge className="ml-2 bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100">
+                        未连接
+                      </Badge>
+                    )}
+                  </h3>
+                </div>
+                <div className="flex gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    onClick={() => restartServer(server.id)}
+                    disabled={server.disabled}
+                    title="重启"
+                  >
+                    <RotateCw className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    onClick={() => handleEdit(server)}
+                    title="编辑"
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0 text-red-500"
+                    onClick={() => handleDelete(server)}
+                    title="删除"
+                  >
+                    <Trash className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <div className="text-xs bg-gray-100 dark:bg-gray-800 p-2 rounded font-mono overflow-x-auto mb-2">
+                {[server.command, ...server.args].join(' ')}
+              </div>
+              {server.status.error && (
+                <p className="text-xs text-red-500 mb-2">{server.status.error}</p>
+              )}
+              {server.status.tools.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {server.status.tools.map((tool) => (
+                    <Badge key={tool} variant="outline" className="text-xs font-mono">
+                      {tool}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-center py-4 text-muted-foreground">
+          <p>没有MCP服务器</p>
+          <p className="text-sm">点击"新增"按钮添加一个</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
 import { Badge } from '@/components/ui/badge';
 import { useQuery, useMutation } from '@tanstack/react-query';
@@ -11,7 +12,14 @@ import { apiRequest, queryClient } from '@/lib/queryClient';
 import { toast } from '@/hooks/use-toast';
 import { McpToolRequest } from '@shared/schema';
 
-const MOCK_USER_ID = 1; // 演示用，真实应用中应从认证获取
+// MCP服务器报告的工具
+interface AvailableMcpTool {
+  name: string;
+  description: string;
+  serverName: string;
+}
+
+const toolKey = (serverName: string, toolName: string) => `${serverName}/${toolName}`;
 
 interface McpToolFormProps {
   tool?: any;
@@ -27,6 +35,31 @@ function McpToolForm({ tool, onClose }: McpToolFormProps) {
   );
   const [isEnabled, setIsEnabled] = useState(tool?.isEnabled !== false);
   const [configError, setConfigError] = useState('');
+  const [boundTool, setBoundTool] = useState(
+    tool?.serverName && tool?.toolName ? toolKey(tool.serverName, tool.toolName) : ''
+  );
+
+  // 获取MCP服务器实际提供的工具
+  const { data: availableTools } = useQuery({
+    queryKey: ['/api/mcp-tools/available'],
+    queryFn: async () => {
+      const response = await apiRequest('GET', '/api/mcp-tools/available');
+      if (!response.ok) {
+        throw new Error('Failed to fetch available MCP tools');
+      }
+      const data = await response.json();
+      return (data.tools || []) as AvailableMcpTool[];
+    }
+  });
+
+  const handleBoundToolChange = (key: string) => {
+    setBoundTool(key);
+    const selected = availableTools?.find(t => toolKey(t.serverName, t.name) === key);
+    if (selected) {
+      if (!name.trim()) setName(selected.name);
+      if (!description.trim()) setDescription(selected.description);
+    }
+  };
 
   const { mutate: createTool, isPending: isCreating } = useMutation({
     mutationFn: async (data: McpToolRequest) => {
@@ -102,6 +135,19 @@ function McpToolForm({ tool, onClose }: McpToolFormProps) {
       return;
     }
 
+    const selected = availableTools?.find(t => toolKey(t.serverName, t.name) === boundTool);
+    const [serverName, toolName] = selected
+      ? [selected.serverName, selected.name]
+      : [tool?.serverName, tool?.toolName];
+    if (!serverName || !toolName) {
+      toast({
+        title: '验证错误',
+        description: '请选择要绑定的MCP工具',
+        variant: 'destructive',
+      });
+      return;
+    }
+
     if (!validateConfig()) {
       return;
     }
@@ -118,8 +164,9 @@ function McpToolForm({ tool, onClose }: McpToolFormProps) {
       description: description.trim(),
       icon,
       configuration,
+      serverName,
+      toolName,
       isEnabled,
-      userId: MOCK_USER_ID,
     };
 
     if (tool?.id) {
@@ -131,6 +178,30 @@ function McpToolForm({ tool, onClose }: McpToolFormProps) {
 
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium mb-1">
+          MCP工具
+        </label>
+        <Select value={boundTool} onValueChange={handleBoundToolChange}>
+          <SelectTrigger>
+            <SelectValue placeholder="选择服务器提供的工具" />
+          </SelectTrigger>
+          <SelectContent>
+            {boundTool && !availableTools?.some(t => toolKey(t.serverName, t.name) === boundTool) && (
+              <SelectItem value={boundTool}>{boundTool}（未连接）</SelectItem>
+            )}
+            {availableTools?.map((t) => (
+              <SelectItem key={toolKey(t.serverName, t.name)} value={toolKey(t.serverName, t.name)}>
+                {t.serverName} / {t.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground mt-1">
+          模型只能调用绑定到服务器工具且在对话中启用的工具
+        </p>
+      </div>
+
       <div>
         <label htmlFor="name" className="block text-sm font-medium mb-1">
           名称
@@ -230,7 +301,7 @@ export default function McpToolsManager() {
   const { data, isLoading } = useQuery({
     queryKey: ['/api/mcp-tools'],
     queryFn: async () => {
-      const response = await apiRequest('GET', `/api/mcp-tools?userId=${MOCK_USER_ID}`);
+      const response = await apiRequest('GET', '/api/mcp-tools');
       if (!response.ok) {
         throw new Error('Failed to fetch MCP tools');
       }
@@ -384,6 +455,13 @@ export default function McpToolsManager() {
                 </div>
               </div>
               <p className="text-sm text-muted-foreground mb-2">{tool.description}</p>
+              <div className="text-xs mb-2">
+                {tool.serverName && tool.toolName ? (
+                  <span className="font-mono">{tool.serverName} / {tool.toolName}</span>
+                ) : (
+                  <span className="text-red-500">未绑定MCP工具，无法被调用</span>
+                )}
+              </div>
               <div className="text-xs bg-gray-100 dark:bg-gray-800 p-2 rounded font-mono overflow-x-auto">
                 {JSON.stringify(tool.configuration, null, 2)}
               </div>
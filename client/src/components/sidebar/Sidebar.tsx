@@ -1,24 +1,32 @@
 import { useState } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { MessageSquare, Settings, ChevronLeft, ChevronRight, WrenchIcon } from 'lucide-react';
+import { MessageSquare, Settings, ChevronLeft, ChevronRight, WrenchIcon, LogOut, KeyRound } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import ConversationList from './ConversationList';
+import ConversationSearch from './ConversationSearch';
 import SystemPrompts from './SystemPrompts';
 import McpToolsManager from './McpToolsManager';
+import McpServersManager from './McpServersManager';
+import ApiTokensManager from './ApiTokensManager';
 import ThemeToggle from '@/components/ui/theme-toggle';
+import { useAuth } from '@/hooks/use-auth';
 
 interface SidebarProps {
   activeConversationId?: number;
   onSelectConversation: (id: number) => void;
   onNewConversation: () => void;
+  // 打开搜索结果所在的对话并定位到命中的消息
+  onOpenSearchResult: (conversationId: number, messageId: number | null) => void;
 }
 
 export default function Sidebar({
   activeConversationId,
   onSelectConversation,
-  onNewConversation
+  onNewConversation,
+  onOpenSearchResult
 }: SidebarProps) {
   const [isCollapsed, setIsCollapsed] = useState(false);
+  const { user, logoutMutation } = useAuth();
 
   return (
     <div
@@ -71,15 +79,32 @@ export default function Sidebar({
           >
             <WrenchIcon className="h-5 w-5" />
           </Button>
-          <div className="mt-auto">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="mb-4"
+            onClick={() => setIsCollapsed(false)}
+            title="设置"
+          >
+            <KeyRound className="h-5 w-5" />
+          </Button>
+          <div className="mt-auto flex flex-col items-center gap-2">
             <ThemeToggle />
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => logoutMutation.mutate()}
+              title="退出登录"
+            >
+              <LogOut className="h-5 w-5" />
+            </Button>
           </div>
         </div>
       ) : (
         // 展开状态
         <div className="flex flex-col h-full p-4">
           <Tabs defaultValue="conversations" className="flex-1">
-            <TabsList className="grid w-full grid-cols-3 mb-4">
+            <TabsList className="grid w-full grid-cols-4 mb-4">
               <TabsTrigger value="conversations">
                 <MessageSquare className="h-4 w-4 mr-2" />
                 对话
@@ -92,24 +117,50 @@ export default function Sidebar({
                 <WrenchIcon className="h-4 w-4 mr-2" />
                 工具
               </TabsTrigger>
+              <TabsTrigger value="settings">
+                <KeyRound className="h-4 w-4 mr-2" />
+                设置
+              </TabsTrigger>
             </TabsList>
             <TabsContent value="conversations" className="overflow-y-auto h-[calc(100vh-160px)]">
-              <ConversationList
-                activeConversationId={activeConversationId}
-                onSelectConversation={onSelectConversation}
-                onNewConversation={onNewConversation}
-              />
+              <ConversationSearch onOpenResult={onOpenSearchResult}>
+                <ConversationList
+                  activeConversationId={activeConversationId}
+                  onSelectConversation={onSelectConversation}
+                  onNewConversation={onNewConversation}
+                />
+              </ConversationSearch>
             </TabsContent>
             <TabsContent value="system-prompts" className="overflow-y-auto h-[calc(100vh-160px)]">
               <SystemPrompts />
             </TabsContent>
             <TabsContent value="mcp-tools" className="overflow-y-auto h-[calc(100vh-160px)]">
               <McpToolsManager />
+              {/* MCP服务器只有管理员可以管理 */}
+              {user?.isAdmin && (
+                <div className="mt-6 pt-4 border-t">
+                  <McpServersManager />
+                </div>
+              )}
+            </TabsContent>
+            <TabsContent value="settings" className="overflow-y-auto h-[calc(100vh-160px)]">
+              <ApiTokensManager />
             </TabsContent>
           </Tabs>
           <div className="mt-auto pt-2 flex justify-between items-center border-t">
-            <div className="text-sm text-muted-foreground">AI聊天应用</div>
-            <ThemeToggle />
+            <div className="text-sm text-muted-foreground truncate">{user?.username}</div>
+            <div className="flex items-center">
+              <ThemeToggle />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => logoutMutation.mutate()}
+                disabled={logoutMutation.isPending}
+                title="退出登录"
+              >
+                <LogOut className="h-4 w-4" />
+              </Button>
+            </div>
           </div>
         </div>
       )}
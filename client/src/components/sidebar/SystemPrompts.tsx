@@ -9,8 +9,6 @@ import { apiRequest, queryClient } from '@/lib/queryClient';
 import { toast } from '@/hooks/use-toast';
 import { SystemPrompt, SystemPromptRequest } from '@shared/schema';
 
-const MOCK_USER_ID = 1; // 演示用，真实应用中应从认证获取
-
 interface SystemPromptFormProps {
   prompt?: SystemPrompt;
   onClose: () => void;
@@ -88,7 +86,6 @@ function SystemPromptForm({ prompt, onClose }: SystemPromptFormProps) {
       title: title.trim(),
       content: content.trim(),
       isDefault,
-      userId: MOCK_USER_ID,
     };
 
     if (prompt?.id) {
@@ -160,7 +157,7 @@ export default function SystemPrompts() {
   const { data, isLoading } = useQuery({
     queryKey: ['/api/system-prompts'],
     queryFn: async () => {
-      const response = await apiRequest('GET', `/api/system-prompts?userId=${MOCK_USER_ID}`);
+      const response = await apiRequest('GET', '/api/system-prompts');
       if (!response.ok) {
         throw new Error('Failed to fetch system prompts');
       }
@@ -197,7 +194,7 @@ export default function SystemPrompts() {
   // 设置默认系统提示
   const { mutate: setDefaultPrompt } = useMutation({
     mutationFn: async (id: number) => {
-      const response = await apiRequest('POST', `/api/system-prompts/${id}/set-default`, { userId: MOCK_USER_ID });
+      const response = await apiRequest('POST', `/api/system-prompts/${id}/set-default`);
       if (!response.ok) {
         throw new Error('Failed to set default system prompt');
       }
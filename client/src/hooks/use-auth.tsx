@@ -0,0 +1,112 @@
+import { createContext, ReactNode, useContext } from "react";
+import { useQuery, useMutation, UseMutationResult } from "@tanstack/react-query";
+import { User } from "@shared/schema";
+import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { clearCachedQueries } from "@/lib/offlineStore";
+
+// 客户端拿到的用户信息不包含密码
+export type PublicUser = Omit<User, "password">;
+
+type Credentials = {
+  username: string;
+  password: string;
+};
+
+type AuthContextType = {
+  user: PublicUser | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<PublicUser, Error, Credentials>;
+  registerMutation: UseMutationResult<PublicUser, Error, Credentials>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+};
+
+export const AuthContext = createContext<AuthContextType | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  // 未登录时 /api/user 返回401，此时 user 为 null
+  const { data, isLoading } = useQuery<{ user: PublicUser } | null>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const onAuthenticated = (user: PublicUser) => {
+    // 切换账号后丢弃上一个用户的缓存数据
+    queryClient.clear();
+    queryClient.setQueryData(["/api/user"], { user });
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const res = await apiRequest("POST", "/api/login", credentials);
+      const data = await res.json();
+      return data.user as PublicUser;
+    },
+    onSuccess: onAuthenticated,
+    onError: (error: Error) => {
+      toast({
+        title: "登录失败",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const res = await apiRequest("POST", "/api/register", credentials);
+      const data = await res.json();
+      return data.user as PublicUser;
+    },
+    onSuccess: onAuthenticated,
+    onError: (error: Error) => {
+      toast({
+        title: "注册失败",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => {
+      queryClient.clear();
+      queryClient.setQueryData(["/api/user"], null);
+      clearCachedQueries().catch(() => {});
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "退出登录失败",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: data?.user ?? null,
+        isLoading,
+        loginMutation,
+        registerMutation,
+        logoutMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
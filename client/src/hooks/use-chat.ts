@@ -1,37 +1,110 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useToast } from "@/hooks/use-toast";
-import { Message, SystemPrompt, Conversation, chatCompletionSchema } from "@shared/schema";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { Message, SystemPrompt, Conversation, RealtimeEvent, chatCompletionSchema, messageForkSchema } from "@shared/schema";
+import { apiRequest, queryClient, streamRequest } from "@/lib/queryClient";
+import { subscribeRealtime } from "@/lib/realtime";
+import {
+  type QueuedMessage,
+  createClientId,
+  fetchWithOfflineFallback,
+  getQueuedMessages,
+  isNetworkError,
+  persistQueryCache,
+  queueMessage,
+  removeQueuedMessage,
+} from "@/lib/offlineStore";
 import { useMutation, useQuery } from "@tanstack/react-query";
 
-// Mock user ID for demo purposes
-// In a real app, this would come from authentication
-const MOCK_USER_ID = 1;
+// 流式接口推送的工具调用
+interface StreamedToolCall {
+  id?: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  result?: Record<string, unknown>;
+}
+
+// 当前分支上的消息；siblingIds 为同一位置的各个版本（编辑或重新生成产生），按创建顺序排列；
+// pending 表示离线时排队、还没有发出的消息
+export type ConversationMessage = Message & { siblingIds?: number[]; pending?: boolean };
+
+// 发送新消息、编辑之前的用户消息（产生新分支）或重新生成某条回复。
+// 新消息的 clientId 是幂等键，重发时服务器不会重复保存
+type ChatTurnRequest =
+  | { type: "send"; content: string; clientId: string }
+  | { type: "fork"; messageId: number; content: string }
+  | { type: "regenerate"; messageId: number };
+
+// 本轮发送给模型的历史范围
+export interface ChatContextInfo {
+  // 没有发送给模型的较早消息数量（已被摘要或丢弃）
+  omittedMessages: number;
+  // 第一条发送给模型的消息ID
+  firstMessageId: number | null;
+  // 较早的消息是否已并入摘要
+  summarized: boolean;
+}
+
+// 流式接口 done 事件的内容
+interface ChatStreamResult {
+  content: string;
+  conversationId: number;
+  awaitingApproval: boolean;
+  // 本轮被停止，最终回复只包含停止前生成的部分
+  interrupted?: boolean;
+  messageIds: number[];
+  context?: ChatContextInfo;
+}
+
+// 服务器拒绝了请求本身（4xx，登录失效除外），重发也不会成功
+function isRejectedRequest(error: unknown): boolean {
+  const status = error instanceof Error ? Number(error.message.split(":")[0]) : NaN;
+  return status >= 400 && status < 500 && status !== 401;
+}
 
 interface UseChatOptions {
   conversationId?: number;
   systemPromptId?: number;
   useMcpTools?: boolean;
+  // llm_models.name；未提供时使用对话保存的模型或默认模型
+  model?: string;
 }
 
-export function useChat({ conversationId, systemPromptId, useMcpTools = false }: UseChatOptions = {}) {
+export function useChat({ conversationId, systemPromptId, useMcpTools = false, model }: UseChatOptions = {}) {
   const [activeConversationId, setActiveConversationId] = useState<number | undefined>(conversationId);
-  const [messages, setMessages] = useState<Message[]>([]);
+  const [messages, setMessages] = useState<ConversationMessage[]>([]);
   const [inputValue, setInputValue] = useState("");
   const [isCreatingNewConversation, setIsCreatingNewConversation] = useState(false);
+  const [isWaitingForResponse, setIsWaitingForResponse] = useState(false);
+  // 从搜索结果打开时要定位的消息
+  const [focusedMessageId, setFocusedMessageId] = useState<number | null>(null);
+  // 最近一轮的上下文信息，只对产生它的对话有效
+  const [lastContext, setLastContext] = useState<{ conversationId: number; context: ChatContextInfo } | null>(null);
+  // 尚未保存的消息使用负数临时ID
+  const tempIdRef = useRef(0);
+  const nextTempId = () => --tempIdRef.current;
+  // 正在进行的一轮；收到 start 事件后才知道所属对话
+  const currentTurnRef = useRef<{ controller: AbortController; conversationId?: number } | null>(null);
+  // 排队等待发送的消息，带有用于显示的临时ID
+  const [queuedMessages, setQueuedMessages] = useState<(QueuedMessage & { id: number })[]>([]);
+  const flushingRef = useRef(false);
   const { toast } = useToast();
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
 
   // Query to fetch conversations
+  // 离线时使用 IndexedDB 中缓存的数据
   const { data: conversations } = useQuery({
     queryKey: ['/api/conversations'],
-    queryFn: async () => {
-      const response = await apiRequest("GET", `/api/conversations?userId=${MOCK_USER_ID}`);
+    queryFn: () => fetchWithOfflineFallback(userId, ['/api/conversations'], async () => {
+      const response = await apiRequest("GET", "/api/conversations");
       if (!response.ok) {
         throw new Error("Failed to fetch conversations");
       }
       const data = await response.json();
       return data.conversations as Conversation[];
-    }
+    }),
+    networkMode: "offlineFirst"
   });
 
   // Select first conversation if none is active and conversations exist
@@ -48,7 +121,7 @@ export function useChat({ conversationId, systemPromptId, useMcpTools = false }:
     refetch: refetchMessages
   } = useQuery({
     queryKey: ['/api/messages', activeConversationId],
-    queryFn: async () => {
+    queryFn: () => fetchWithOfflineFallback(userId, ['/api/messages', activeConversationId], async () => {
       if (!activeConversationId) return [];
       
       const response = await apiRequest("GET", `/api/messages?conversationId=${activeConversationId}`);
@@ -56,9 +129,10 @@ export function useChat({ conversationId, systemPromptId, useMcpTools = false }:
         throw new Error("Failed to fetch messages");
       }
       const data = await response.json();
-      return data.messages as Message[];
-    },
+      return data.messages as ConversationMessage[];
+    }),
     enabled: !!activeConversationId, // Only run query if we have a conversation ID
+    networkMode: "offlineFirst"
   });
 
   // Update messages when conversation messages are fetched
@@ -72,7 +146,7 @@ export function useChat({ conversationId, systemPromptId, useMcpTools = false }:
         role: "assistant",
         content: "您好！我是AI助手。请问有什么我可以帮助您的吗？",
         timestamp: new Date(),
-        userId: MOCK_USER_ID,
+        userId,
         conversationId: activeConversationId
       } as Message]);
     } else {
@@ -82,17 +156,161 @@ export function useChat({ conversationId, systemPromptId, useMcpTools = false }:
         role: "assistant",
         content: "您好！我是AI助手。请问有什么我可以帮助您的吗？",
         timestamp: new Date(),
-        userId: MOCK_USER_ID
+        userId
       } as Message]);
     }
   }, [conversationMessages, activeConversationId]);
 
+  // 把消息放入发送队列（保存在 IndexedDB 中），恢复连接后按顺序发送
+  const enqueueMessage = async (message: Omit<QueuedMessage, "userId" | "createdAt">) => {
+    if (userId === null) return;
+    const queued: QueuedMessage = { ...message, userId, createdAt: new Date().toISOString() };
+    await queueMessage(queued);
+    setQueuedMessages((prev) => [...prev, { ...queued, id: nextTempId() }]);
+    setInputValue("");
+  };
+
+  // 按顺序发送排队的消息；仍然连不上服务器时停止，等下次恢复连接再发
+  const flushQueuedMessages = async () => {
+    if (userId === null || flushingRef.current || !navigator.onLine) return;
+    flushingRef.current = true;
+    try {
+      // 排队时还没有对话的消息：第一条发出时创建对话，其余的发到同一个对话
+      let createdConversationId: number | undefined;
+      for (const queued of await getQueuedMessages(userId)) {
+        let conversationId: number;
+        try {
+          const response = await apiRequest("POST", "/api/chat", chatCompletionSchema.parse({
+            message: queued.content,
+            conversationId: queued.conversationId ?? createdConversationId,
+            systemPromptId: queued.systemPromptId,
+            useTool: queued.useTool,
+            model: queued.model,
+            clientId: queued.clientId
+          }));
+          conversationId = (await response.json()).conversationId;
+        } catch (error) {
+          if (isNetworkError(error) || !isRejectedRequest(error)) break;
+          toast({
+            title: "排队的消息发送失败",
+            description: error instanceof Error ? error.message : "发送排队的消息时出错",
+            variant: "destructive",
+          });
+          await removeQueuedMessage(queued.clientId);
+          setQueuedMessages((prev) => prev.filter((message) => message.clientId !== queued.clientId));
+          continue;
+        }
+
+        if (queued.conversationId === null && createdConversationId === undefined) {
+          createdConversationId = conversationId;
+          // 还停留在新对话时打开创建的对话
+          setActiveConversationId((prev) => prev ?? conversationId);
+          setIsCreatingNewConversation(false);
+        }
+        await removeQueuedMessage(queued.clientId);
+        setQueuedMessages((prev) => prev.filter((message) => message.clientId !== queued.clientId));
+        queryClient.invalidateQueries({ queryKey: ['/api/conversations'] });
+        queryClient.invalidateQueries({ queryKey: ['/api/messages', conversationId] });
+      }
+    } catch (error) {
+      console.error("Failed to send queued messages:", error);
+    } finally {
+      flushingRef.current = false;
+    }
+  };
+
+  // 缓存对话和消息；加载上次没有发出的消息，并在恢复连接时发送
+  useEffect(() => {
+    if (userId === null) return;
+    let cancelled = false;
+    const stopPersisting = persistQueryCache(userId);
+    getQueuedMessages(userId)
+      .then((queued) => {
+        if (cancelled) return;
+        setQueuedMessages(queued.map((message) => ({ ...message, id: nextTempId() })));
+        flushQueuedMessages();
+      })
+      .catch((error) => console.error("Failed to load queued messages:", error));
+
+    const handleOnline = () => flushQueuedMessages();
+    window.addEventListener("online", handleOnline);
+    return () => {
+      cancelled = true;
+      stopPersisting();
+      window.removeEventListener("online", handleOnline);
+    };
+  }, [userId]);
+
+  // 其他标签页或设备上的变化由服务器实时推送，直接更新缓存
+  useEffect(() => {
+    if (userId === null) return;
+
+    const updateConversation = (conversation: Conversation) => {
+      queryClient.setQueryData<Conversation[]>(['/api/conversations'], (prev) =>
+        prev?.map((item) => item.id === conversation.id ? conversation : item)
+      );
+      queryClient.setQueryData<Conversation | null>(['/api/conversations', conversation.id], (prev) =>
+        prev ? conversation : prev
+      );
+    };
+
+    const handleEvent = (event: RealtimeEvent) => {
+      switch (event.type) {
+        case "message-created": {
+          const { message } = event;
+          const conversationId = message.conversationId;
+          if (!conversationId) break;
+
+          const cachedConversations = queryClient.getQueryData<Conversation[]>(['/api/conversations']);
+          if (cachedConversations && !cachedConversations.some((conversation) => conversation.id === conversationId)) {
+            // 在其他地方新建的对话
+            queryClient.invalidateQueries({ queryKey: ['/api/conversations'] });
+          }
+
+          // 本页正在进行的一轮结束后会重新获取消息，避免覆盖正在显示的流式内容
+          if (currentTurnRef.current?.conversationId === conversationId) break;
+
+          const key = ['/api/messages', conversationId];
+          const cachedMessages = queryClient.getQueryData<ConversationMessage[]>(key);
+          if (!cachedMessages || cachedMessages.some((item) => item.id === message.id)) break;
+          // 接在当前分支末尾的消息直接加上；编辑或重新生成产生的新分支重新获取
+          const lastMessage = cachedMessages[cachedMessages.length - 1];
+          if ((lastMessage?.id ?? null) === message.parentId) {
+            queryClient.setQueryData<ConversationMessage[]>(key, [...cachedMessages, message]);
+          } else {
+            queryClient.invalidateQueries({ queryKey: key });
+          }
+          break;
+        }
+        case "conversation-renamed":
+          updateConversation(event.conversation);
+          break;
+        case "tools-changed":
+          if (event.conversation) {
+            updateConversation(event.conversation);
+          } else {
+            queryClient.invalidateQueries({ queryKey: ['/api/mcp-tools'] });
+          }
+          break;
+        case "prompt-changed":
+          queryClient.invalidateQueries({ queryKey: ['/api/system-prompts'] });
+          break;
+      }
+    };
+
+    // 断线期间错过的事件不会补发，重新连上后全部重新获取，并发送排队的消息
+    return subscribeRealtime(handleEvent, () => {
+      queryClient.invalidateQueries();
+      flushQueuedMessages();
+    });
+  }, [userId]);
+
   // Create a new conversation
   const { mutate: createConversation } = useMutation({
-    mutationFn: async (title: string = "新对话") => {
+    // 不提供标题时，服务器在第一条回复之后用模型生成标题
+    mutationFn: async (title?: string) => {
       const response = await apiRequest("POST", "/api/conversations", {
         title,
-        userId: MOCK_USER_ID,
         systemPromptId
       });
       if (!response.ok) {
@@ -121,13 +339,14 @@ export function useChat({ conversationId, systemPromptId, useMcpTools = false }:
 
   const startNewConversation = () => {
     setIsCreatingNewConversation(true);
+    setFocusedMessageId(null);
     setActiveConversationId(undefined);
     setMessages([{
       id: 0,
       role: "assistant",
       content: "您好！我是AI助手。请问有什么我可以帮助您的吗？",
       timestamp: new Date(),
-      userId: MOCK_USER_ID
+      userId
     } as Message]);
     
     // First message will create a new conversation
@@ -135,38 +354,192 @@ export function useChat({ conversationId, systemPromptId, useMcpTools = false }:
 
   // Mutation for sending messages to the API
   const { mutate, isPending } = useMutation({
-    mutationFn: async (content: string) => {
-      const userMessage: Message = {
-        id: messages.length + 1,
-        role: "user",
-        content,
-        timestamp: new Date(),
-        userId: MOCK_USER_ID,
-        conversationId: activeConversationId
-      } as Message;
-
-      // Add user message to state immediately
-      setMessages((prevMessages) => [...prevMessages, userMessage]);
-
-      // Validate the message
-      const validatedData = chatCompletionSchema.parse({ 
-        message: content,
-        conversationId: activeConversationId,
-        systemPromptId,
-        userId: MOCK_USER_ID,
-        useTool: useMcpTools
-      });
+    mutationFn: async (turnRequest: ChatTurnRequest) => {
+      let url: string;
+      let validatedData: unknown;
 
-      // Send request to API
-      const response = await apiRequest("POST", "/api/chat", validatedData);
-      
-      if (!response.ok) {
-        throw new Error("Failed to get AI response");
+      if (turnRequest.type === "regenerate") {
+        // 保留本轮的用户消息，去掉之后的旧回复
+        setMessages((prevMessages) => {
+          const index = prevMessages.findIndex((message) => message.id === turnRequest.messageId);
+          const userIndex = prevMessages.slice(0, index).map((message) => message.role).lastIndexOf("user");
+          return prevMessages.slice(0, userIndex + 1);
+        });
+        url = `/api/messages/${turnRequest.messageId}/regenerate`;
+        validatedData = { systemPromptId, useTool: useMcpTools };
+      } else {
+        const userMessage: Message = {
+          id: nextTempId(),
+          role: "user",
+          content: turnRequest.content,
+          timestamp: new Date(),
+          userId,
+          conversationId: activeConversationId
+        } as Message;
+
+        if (turnRequest.type === "fork") {
+          // 编辑后的消息替换原消息及之后的内容
+          setMessages((prevMessages) => [
+            ...prevMessages.slice(0, prevMessages.findIndex((message) => message.id === turnRequest.messageId)),
+            userMessage
+          ]);
+          url = `/api/messages/${turnRequest.messageId}/fork`;
+          validatedData = messageForkSchema.parse({
+            content: turnRequest.content,
+            systemPromptId,
+            useTool: useMcpTools
+          });
+        } else {
+          // Add user message to state immediately
+          setMessages((prevMessages) => [...prevMessages, userMessage]);
+          url = "/api/chat/stream";
+
+          // Validate the message
+          validatedData = chatCompletionSchema.parse({ 
+            message: turnRequest.content,
+            conversationId: activeConversationId,
+            systemPromptId,
+            useTool: useMcpTools,
+            model,
+            clientId: turnRequest.clientId
+          });
+        }
       }
+      setIsWaitingForResponse(true);
+
+      let result: ChatStreamResult | undefined;
+      let streamError: string | undefined;
+      let turnConversationId = activeConversationId;
+      // 当前正在接收增量内容的助手消息；工具调用之后的文本另起一条消息
+      let streamingMessageId: number | null = null;
+      // 工具调用ID -> 临时消息ID
+      const toolMessageIds = new Map<string, number>();
+
+      const addTransientMessage = (message: Partial<Message>) => {
+        const id = nextTempId();
+        setMessages((prevMessages) => [...prevMessages, {
+          id,
+          role: "assistant",
+          content: "",
+          timestamp: new Date(),
+          userId,
+          conversationId: turnConversationId,
+          ...message
+        } as Message]);
+        return id;
+      };
+
+      const setToolCall = (id: number, call: StreamedToolCall) => {
+        setMessages((prevMessages) => prevMessages.map((message) =>
+          message.id === id
+            ? { ...message, toolCall: { calls: [{ name: call.name, parameters: call.arguments, result: call.result }] } }
+            : message
+        ));
+      };
+
+      const turn = { controller: new AbortController(), conversationId: turnConversationId };
+      currentTurnRef.current = turn;
 
-      return await response.json() as { content: string, conversationId: number };
+      // 通过SSE流式接收回复
+      try {
+        await streamRequest(url, validatedData, (event, data) => {
+          switch (event) {
+            case "start":
+              turnConversationId = data.conversationId;
+              turn.conversationId = data.conversationId;
+              if (data.context) {
+                setLastContext({ conversationId: data.conversationId, context: data.context });
+              }
+              break;
+            case "delta": {
+              setIsWaitingForResponse(false);
+              if (streamingMessageId === null) {
+                streamingMessageId = addTransientMessage({ content: data.content });
+              } else {
+                const id = streamingMessageId;
+                setMessages((prevMessages) => prevMessages.map((message) =>
+                  message.id === id ? { ...message, content: message.content + data.content } : message
+                ));
+              }
+              break;
+            }
+            case "tool_call_start": {
+              setIsWaitingForResponse(false);
+              streamingMessageId = null;
+              const call = data as StreamedToolCall;
+              const id = addTransientMessage({});
+              setToolCall(id, call);
+              if (call.id) toolMessageIds.set(call.id, id);
+              break;
+            }
+            case "tool_call_end": {
+              const call = data as StreamedToolCall;
+              const id = call.id ? toolMessageIds.get(call.id) : undefined;
+              if (id !== undefined) setToolCall(id, call);
+              break;
+            }
+            case "done":
+              result = data;
+              // 没有收到增量内容（例如处理出错）时补上最终回复
+              if (streamingMessageId === null && !data.awaitingApproval && data.content) {
+                addTransientMessage({ content: data.content });
+              }
+              break;
+            case "title":
+              // 模型为对话生成的标题
+              queryClient.setQueryData<Conversation[]>(['/api/conversations'], (prev) =>
+                prev?.map((conversation) =>
+                  conversation.id === data.conversationId ? { ...conversation, title: data.title } : conversation
+                )
+              );
+              break;
+            case "error":
+              streamError = data.message;
+              break;
+          }
+        }, turn.controller.signal);
+      } catch (error) {
+        // 停止时直接断开了请求（服务器还没开始生成，或停止接口调用失败）
+        if (turn.controller.signal.aborted) return undefined;
+        // 连接中断：消息放入队列，恢复连接后重发。服务器可能已经收到了这条消息，
+        // 按 clientId 去重，不会重复保存
+        if (turnRequest.type === "send" && isNetworkError(error)) {
+          await enqueueMessage({
+            clientId: turnRequest.clientId,
+            conversationId: turn.conversationId ?? null,
+            content: turnRequest.content,
+            systemPromptId,
+            useTool: useMcpTools,
+            model
+          });
+          toast({
+            title: "网络连接中断",
+            description: "消息已保存，恢复连接后会自动发送"
+          });
+          return undefined;
+        }
+        throw error;
+      } finally {
+        currentTurnRef.current = null;
+      }
+
+      if (streamError || !result) {
+        throw new Error(streamError || "Failed to get AI response");
+      }
+
+      return result;
     },
-    onSuccess: (data) => {
+    onSuccess: (data, turnRequest) => {
+      if (!data) {
+        // 已停止或已放入发送队列：去掉未保存的消息，对话和消息以服务器为准
+        setMessages((prevMessages) => prevMessages.filter((message) => message.id >= 0));
+        queryClient.invalidateQueries({ queryKey: ['/api/conversations'] });
+        if (activeConversationId) {
+          queryClient.invalidateQueries({ queryKey: ['/api/messages', activeConversationId] });
+        }
+        return;
+      }
+
       // If this was the first message in a new conversation, update the active conversation ID
       if (!activeConversationId && data.conversationId) {
         setActiveConversationId(data.conversationId);
@@ -175,19 +548,9 @@ export function useChat({ conversationId, systemPromptId, useMcpTools = false }:
         // Refresh conversations list to include the new one
         queryClient.invalidateQueries({ queryKey: ['/api/conversations'] });
       }
-      
-      // Add AI response to state
-      const aiMessage: Message = {
-        id: messages.length + 2,
-        role: "assistant",
-        content: data.content,
-        timestamp: new Date(),
-        userId: MOCK_USER_ID,
-        conversationId: data.conversationId || activeConversationId
-      } as Message;
-
-      setMessages((prevMessages) => [...prevMessages, aiMessage]);
-      setInputValue("");
+      if (turnRequest.type === "send") {
+        setInputValue("");
+      }
       
       // Invalidate messages query to refresh from database
       if (activeConversationId || data.conversationId) {
@@ -197,8 +560,12 @@ export function useChat({ conversationId, systemPromptId, useMcpTools = false }:
       }
     },
     onError: (error) => {
-      // Remove the last user message on error
-      setMessages((prevMessages) => prevMessages.slice(0, -1));
+      // Remove the unsaved messages of this turn on error
+      setMessages((prevMessages) => prevMessages.filter((message) => message.id >= 0));
+      // 编辑和重新生成时已经隐去了原分支，从服务器恢复
+      if (activeConversationId) {
+        queryClient.invalidateQueries({ queryKey: ['/api/messages', activeConversationId] });
+      }
       
       toast({
         title: "发送消息失败",
@@ -206,35 +573,140 @@ export function useChat({ conversationId, systemPromptId, useMcpTools = false }:
         variant: "destructive",
       });
     },
+    onSettled: () => {
+      setIsWaitingForResponse(false);
+    }
   });
 
   const handleSendMessage = () => {
     if (!inputValue.trim() || isPending) return;
+    setFocusedMessageId(null);
     
     // If we're creating a new conversation with the first message, use the message as the title
     if (!activeConversationId && isCreatingNewConversation) {
       // The API will create a conversation for us
     } 
     
-    mutate(inputValue.trim());
+    const content = inputValue.trim();
+    const clientId = createClientId();
+    // 离线时，或这个对话还有排队的消息时（保持发送顺序）放入发送队列
+    const conversationId = activeConversationId ?? null;
+    if (!navigator.onLine || queuedMessages.some((queued) => queued.conversationId === conversationId)) {
+      enqueueMessage({ clientId, conversationId, content, systemPromptId, useTool: useMcpTools, model })
+        .then(() => flushQueuedMessages())
+        .catch((error) => {
+          toast({
+            title: "保存消息失败",
+            description: error instanceof Error ? error.message : "无法保存离线消息",
+            variant: "destructive",
+          });
+        });
+      return;
+    }
+    
+    mutate({ type: "send", content, clientId });
+  };
+
+  const editMessage = (messageId: number, content: string) => {
+    if (!content.trim() || isPending) return;
+    mutate({ type: "fork", messageId, content: content.trim() });
+  };
+
+  const regenerateMessage = (messageId: number) => {
+    if (isPending) return;
+    mutate({ type: "regenerate", messageId });
+  };
+
+  // 停止正在进行的生成：已知所属对话时请服务器中止，流随后正常结束并带回被中断的回复；
+  // 否则直接断开请求
+  const stopGeneration = () => {
+    const turn = currentTurnRef.current;
+    if (!turn) return;
+    if (turn.conversationId === undefined) {
+      turn.controller.abort();
+      return;
+    }
+    apiRequest("POST", `/api/conversations/${turn.conversationId}/stop`)
+      .catch(() => turn.controller.abort());
+  };
+
+  // 切换到另一个版本所在的分支
+  const { mutate: switchBranch } = useMutation({
+    mutationFn: async (messageId: number) => {
+      const response = await apiRequest("POST", `/api/messages/${messageId}/activate`);
+      if (!response.ok) {
+        throw new Error("Failed to switch branch");
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/messages', activeConversationId] });
+    },
+    onError: (error) => {
+      toast({
+        title: "切换版本失败",
+        description: error instanceof Error ? error.message : "切换消息版本时出错",
+        variant: "destructive",
+      });
+    }
+  });
+
+  // 命中的消息不在当前分支上时切换到它所在的分支；每条消息只尝试一次
+  const branchSwitchRef = useRef<number | null>(null);
+  useEffect(() => {
+    if (!focusedMessageId || !conversationMessages || branchSwitchRef.current === focusedMessageId) return;
+    if (!conversationMessages.some((message) => message.id === focusedMessageId)) {
+      branchSwitchRef.current = focusedMessageId;
+      switchBranch(focusedMessageId);
+    }
+  }, [focusedMessageId, conversationMessages]);
+
+  // 打开搜索结果：切换到所在对话并定位到命中的消息（标题命中时 messageId 为 null）
+  const openSearchResult = (conversationId: number, messageId: number | null) => {
+    selectConversation(conversationId);
+    setFocusedMessageId(messageId);
   };
 
   const selectConversation = (id: number) => {
     if (id !== activeConversationId) {
+      setFocusedMessageId(null);
       setActiveConversationId(id);
       setIsCreatingNewConversation(false);
       queryClient.invalidateQueries({ queryKey: ['/api/messages', id] });
     }
   };
 
+  // 排队的消息显示在所属对话的末尾
+  const pendingMessages = queuedMessages
+    .filter((queued) => queued.conversationId === (activeConversationId ?? null))
+    .map((queued) => ({
+      id: queued.id,
+      role: "user",
+      content: queued.content,
+      timestamp: new Date(queued.createdAt),
+      userId,
+      conversationId: queued.conversationId,
+      clientId: queued.clientId,
+      pending: true
+    } as ConversationMessage));
+
   return {
-    messages,
+    messages: pendingMessages.length > 0 ? [...messages, ...pendingMessages] : messages,
     conversations,
     activeConversationId,
     isLoading: isPending || isLoadingMessages,
+    // 已发送但还没有收到任何回复内容
+    isWaitingForResponse: isWaitingForResponse || isLoadingMessages,
+    context: lastContext && lastContext.conversationId === activeConversationId ? lastContext.context : undefined,
     inputValue,
     setInputValue,
     handleSendMessage,
+    editMessage,
+    regenerateMessage,
+    stopGeneration,
+    switchBranch,
+    focusedMessageId,
+    openSearchResult,
     selectConversation,
     startNewConversation
   };
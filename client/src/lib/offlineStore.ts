@@ -0,0 +1,137 @@
+import { queryClient } from "@/lib/queryClient";
+
+// 客户端的离线数据（IndexedDB）：对话列表和消息的缓存，以及离线时排队等待发送的消息。
+// 缓存按用户区分；读取失败（例如浏览器禁用了 IndexedDB）时当作没有缓存
+
+const DB_NAME = "aichatsync";
+const DB_VERSION = 1;
+// 查询结果，键为 [用户ID, ...查询键] 的 JSON
+const CACHE_STORE = "queryCache";
+// 排队的消息，键为 clientId
+const OUTBOX_STORE = "outbox";
+
+// 离线时写下、恢复连接后发送的消息
+export interface QueuedMessage {
+  // 幂等键：服务器对同一个 clientId 只保存一次
+  clientId: string;
+  userId: number;
+  // null 表示发送时新建对话
+  conversationId: number | null;
+  content: string;
+  systemPromptId?: number;
+  useTool: boolean;
+  model?: string;
+  createdAt: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(CACHE_STORE)) {
+          db.createObjectStore(CACHE_STORE);
+        }
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          db.createObjectStore(OUTBOX_STORE, { keyPath: "clientId" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // 打开失败时下次重试
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+async function runRequest<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = createRequest(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function cacheKey(userId: number, queryKey: readonly unknown[]): IDBValidKey {
+  return JSON.stringify([userId, ...queryKey]);
+}
+
+export async function readCachedQuery<T>(userId: number, queryKey: readonly unknown[]): Promise<T | undefined> {
+  return runRequest(CACHE_STORE, "readonly", (store) => store.get(cacheKey(userId, queryKey)));
+}
+
+export async function writeCachedQuery(userId: number, queryKey: readonly unknown[], data: unknown): Promise<void> {
+  await runRequest(CACHE_STORE, "readwrite", (store) => store.put(data, cacheKey(userId, queryKey)));
+}
+
+// 退出登录时清除缓存的对话和消息；排队的消息保留，再次登录后发送
+export async function clearCachedQueries(): Promise<void> {
+  await runRequest(CACHE_STORE, "readwrite", (store) => store.clear());
+}
+
+// 按写下的顺序返回用户排队的消息
+export async function getQueuedMessages(userId: number): Promise<QueuedMessage[]> {
+  const all = await runRequest<QueuedMessage[]>(OUTBOX_STORE, "readonly", (store) => store.getAll());
+  return all
+    .filter((message) => message.userId === userId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function queueMessage(message: QueuedMessage): Promise<void> {
+  await runRequest(OUTBOX_STORE, "readwrite", (store) => store.put(message));
+}
+
+export async function removeQueuedMessage(clientId: string): Promise<void> {
+  await runRequest(OUTBOX_STORE, "readwrite", (store) => store.delete(clientId));
+}
+
+// 消息的幂等键；randomUUID 只在安全上下文（HTTPS 或 localhost）中可用
+export function createClientId(): string {
+  if (typeof crypto.randomUUID === "function") return crypto.randomUUID();
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// 请求没有到达服务器（离线、服务器不可达或连接中断），而不是服务器返回了错误
+export function isNetworkError(error: unknown): boolean {
+  return !navigator.onLine || error instanceof TypeError;
+}
+
+// 先请求服务器，网络不可用时改用上次缓存的数据；没有缓存时仍然抛出原来的错误
+export async function fetchWithOfflineFallback<T>(
+  userId: number | null,
+  queryKey: readonly unknown[],
+  fetcher: () => Promise<T>
+): Promise<T> {
+  try {
+    return await fetcher();
+  } catch (error) {
+    if (userId === null || !isNetworkError(error)) throw error;
+    const cached = await readCachedQuery<T>(userId, queryKey).catch(() => undefined);
+    if (cached === undefined) throw error;
+    return cached;
+  }
+}
+
+// 对话列表和消息的查询结果有变化（获取、实时推送或本地更新）时写入缓存。返回取消的函数
+export function persistQueryCache(userId: number): () => void {
+  return queryClient.getQueryCache().subscribe((event) => {
+    if (event.type !== "updated" || event.action.type !== "success") return;
+    const { queryKey, state } = event.query;
+    if (queryKey[0] !== "/api/conversations" && queryKey[0] !== "/api/messages") return;
+    if (state.data === undefined) return;
+    writeCachedQuery(userId, queryKey, state.data).catch((error) => {
+      console.error("Failed to cache query:", error);
+    });
+  });
+}
@@ -0,0 +1,55 @@
+import { REALTIME_PATH, type RealtimeEvent } from "@shared/schema";
+
+// 断线后重连的等待时间，逐次加倍
+const RECONNECT_MIN_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30 * 1000;
+
+// 订阅服务器推送的实时事件，断线后自动重连。断线期间的事件不会补发，
+// 重新连上时调用 onReconnect，由调用方重新获取数据。返回取消订阅的函数
+export function subscribeRealtime(
+  onEvent: (event: RealtimeEvent) => void,
+  onReconnect: () => void
+): () => void {
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  const url = `${protocol}//${window.location.host}${REALTIME_PATH}`;
+
+  let socket: WebSocket | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let delay = RECONNECT_MIN_DELAY_MS;
+  // 之前的连接断开过（或第一次连接失败）
+  let reconnecting = false;
+  let closed = false;
+
+  const connect = () => {
+    socket = new WebSocket(url);
+
+    socket.onopen = () => {
+      delay = RECONNECT_MIN_DELAY_MS;
+      if (reconnecting) onReconnect();
+      reconnecting = false;
+    };
+
+    socket.onmessage = (message) => {
+      try {
+        onEvent(JSON.parse(message.data));
+      } catch (error) {
+        console.error("Failed to handle realtime event:", error);
+      }
+    };
+
+    socket.onclose = () => {
+      if (closed) return;
+      reconnecting = true;
+      reconnectTimer = setTimeout(connect, delay);
+      delay = Math.min(delay * 2, RECONNECT_MAX_DELAY_MS);
+    };
+  };
+
+  connect();
+
+  return () => {
+    closed = true;
+    clearTimeout(reconnectTimer);
+    socket?.close();
+  };
+}
@@ -0,0 +1,100 @@
+import { useState } from "react";
+import { Redirect } from "wouter";
+import { MessageSquare, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useAuth } from "@/hooks/use-auth";
+
+interface CredentialsFormProps {
+  submitLabel: string;
+  isPending: boolean;
+  onSubmit: (credentials: { username: string; password: string }) => void;
+}
+
+function CredentialsForm({ submitLabel, isPending, onSubmit }: CredentialsFormProps) {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username.trim() || !password) return;
+    onSubmit({ username: username.trim(), password });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor={`${submitLabel}-username`}>用户名</Label>
+        <Input
+          id={`${submitLabel}-username`}
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          autoComplete="username"
+          disabled={isPending}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${submitLabel}-password`}>密码</Label>
+        <Input
+          id={`${submitLabel}-password`}
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoComplete="current-password"
+          disabled={isPending}
+        />
+      </div>
+      <Button type="submit" className="w-full" disabled={isPending || !username.trim() || !password}>
+        {isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        {submitLabel}
+      </Button>
+    </form>
+  );
+}
+
+export default function AuthPage() {
+  const { user, loginMutation, registerMutation } = useAuth();
+
+  // 已登录时直接进入聊天
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50 dark:bg-gray-900">
+      <Card className="w-full max-w-md mx-4">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MessageSquare className="h-6 w-6" />
+            AI聊天应用
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="login">
+            <TabsList className="grid w-full grid-cols-2 mb-4">
+              <TabsTrigger value="login">登录</TabsTrigger>
+              <TabsTrigger value="register">注册</TabsTrigger>
+            </TabsList>
+            <TabsContent value="login">
+              <CredentialsForm
+                submitLabel="登录"
+                isPending={loginMutation.isPending}
+                onSubmit={(credentials) => loginMutation.mutate(credentials)}
+              />
+            </TabsContent>
+            <TabsContent value="register">
+              <CredentialsForm
+                submitLabel="注册"
+                isPending={registerMutation.isPending}
+                onSubmit={(credentials) => registerMutation.mutate(credentials)}
+              />
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
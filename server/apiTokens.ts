@@ -0,0 +1,78 @@
+import type { Request, Response, NextFunction } from "express";
+import { createHash, randomBytes } from "crypto";
+import type { ApiToken, ApiTokenScope } from "@shared/schema";
+import { storage } from "./storage";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // 通过 Bearer 令牌认证时的令牌记录
+      apiToken?: ApiToken;
+    }
+  }
+}
+
+const TOKEN_PREFIX = "mcpchat_";
+
+export function hashApiToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// 生成新的令牌；明文只在创建时返回一次，数据库中只保存哈希
+export function generateApiToken() {
+  const token = TOKEN_PREFIX + randomBytes(32).toString("base64url");
+  return {
+    token,
+    tokenHash: hashApiToken(token),
+    tokenPrefix: token.slice(0, TOKEN_PREFIX.length + 6),
+  };
+}
+
+// 管理类接口需要 tools:manage 范围
+const MANAGE_PATHS = ["/mcp-tools", "/mcp-servers", "/llm-providers", "/models"];
+// 修改对话可以使用哪些工具
+const CONVERSATION_TOOLS_PATH = /^\/conversations\/[^/]+\/tools$/;
+
+// 请求所需的令牌范围；null 表示不允许通过令牌访问（令牌管理只能在登录会话中进行）
+// 路径相对于 /api。Express 的路由不区分大小写并忽略末尾的斜杠，比较前先做同样的处理
+function requiredScope(req: Request): ApiTokenScope | null {
+  const path = req.path.toLowerCase().replace(/\/+$/, "");
+  if (path.startsWith("/tokens")) return null;
+  // MCP服务器的配置（命令、参数）即使只读也需要管理范围
+  if (path.startsWith("/mcp-servers")) return "tools:manage";
+  if (CONVERSATION_TOOLS_PATH.test(path)) return "tools:manage";
+  if (req.method === "GET") return "read";
+  if (path === "/mcp-tools/call") return "chat";
+  if (MANAGE_PATHS.some((prefix) => path.startsWith(prefix))) return "tools:manage";
+  return "chat";
+}
+
+// 解析 Authorization: Bearer 令牌并设置 req.user；没有该请求头时交给会话认证
+export async function bearerAuth(req: Request, res: Response, next: NextFunction) {
+  const header = req.headers.authorization;
+  if (!header?.startsWith("Bearer ")) return next();
+
+  try {
+    const token = await storage.getApiTokenByHash(hashApiToken(header.slice(7).trim()));
+    if (!token || (token.expiresAt && token.expiresAt.getTime() <= Date.now())) {
+      return res.status(401).json({ message: "Invalid or expired API token" });
+    }
+
+    const scope = requiredScope(req);
+    if (!scope || !token.scopes.includes(scope)) {
+      return res.status(403).json({ message: scope ? `API token lacks the "${scope}" scope` : "Not available with API tokens" });
+    }
+
+    const user = await storage.getUser(token.userId);
+    if (!user) {
+      return res.status(401).json({ message: "Invalid or expired API token" });
+    }
+
+    await storage.touchApiToken(token.id);
+    req.user = user;
+    req.apiToken = token;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,176 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import type { IncomingMessage } from "http";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { fromZodError } from "zod-validation-error";
+import { insertUserSchema, type User as SelectUser } from "@shared/schema";
+import { storage } from "./storage";
+import { pool } from "./db";
+import { initializeSystemPrompts } from "./systemPrompts";
+import type { UpgradeAuthenticator } from "./realtime";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+// 密码以 "哈希.盐" 的形式存储
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string) {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+// 不把密码哈希返回给客户端
+function toPublicUser({ password, ...user }: SelectUser) {
+  return user;
+}
+
+// 返回用于 WebSocket 升级请求的登录检查
+export function setupAuth(app: Express): UpgradeAuthenticator {
+  const PostgresSessionStore = connectPg(session);
+
+  app.set("trust proxy", 1);
+  const sessionMiddleware = session({
+    store: new PostgresSessionStore({ pool, createTableIfMissing: true }),
+    secret: process.env.SESSION_SECRET || randomBytes(32).toString("hex"),
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: 30 * 24 * 60 * 60 * 1000,
+    },
+  });
+  app.use(sessionMiddleware);
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/register", async (req, res, next) => {
+    try {
+      const result = insertUserSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: fromZodError(result.error).message });
+      }
+
+      const { username, password } = result.data;
+      if (!username.trim() || password.length < 6) {
+        return res.status(400).json({ message: "Username is required and password must be at least 6 characters" });
+      }
+
+      if (await storage.getUserByUsername(username)) {
+        return res.status(400).json({ message: "Username already exists" });
+      }
+
+      let user = await storage.createUser({
+        username,
+        password: await hashPassword(password),
+      });
+      // 第一个注册的账号成为管理员
+      user = (await storage.promoteFirstUserToAdmin()) ?? user;
+
+      // Initialize default system prompts
+      await initializeSystemPrompts(user.id);
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json({ user: toPublicUser(user) });
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (err: unknown, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json({ user: toPublicUser(user) });
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      res.sendStatus(200);
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    res.json({ user: toPublicUser(req.user) });
+  });
+
+  // 升级请求不经过 Express 的中间件，直接用同一个会话中间件读取登录的用户
+  return async (req: IncomingMessage) => {
+    const request = req as Request;
+    await new Promise<void>((resolve, reject) => {
+      sessionMiddleware(request, {} as Response, (err?: unknown) => (err ? reject(err) : resolve()));
+    });
+    const userId = (request.session as { passport?: { user?: number } } | undefined)?.passport?.user;
+    if (userId === undefined) return null;
+    const user = await storage.getUser(userId);
+    return user ? user.id : null;
+  };
+}
+
+// 其余API都要求已登录
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+  next();
+}
+
+// 服务器级别的配置（MCP服务器、LLM提供商和模型）只有管理员可以修改
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!req.user?.isAdmin) {
+    return res.status(403).json({ message: "Admin access required" });
+  }
+  next();
+}
@@ -0,0 +1,74 @@
+import type { Conversation, LlmModel, Message } from "@shared/schema";
+import type { ChatMessage } from "./llm";
+
+// 上下文窗口管理：估算token数量，决定哪些较早的消息需要丢弃或摘要
+
+// 模型没有配置上下文窗口时使用
+export const DEFAULT_CONTEXT_WINDOW = parseInt(process.env.DEFAULT_CONTEXT_WINDOW || "", 10) || 32768;
+
+// 为模型回复和工具定义预留的token
+const RESERVED_TOKENS = 4096;
+
+// 每条消息在角色和格式上的额外开销
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// 近似估算文本的token数量：中日韩文字大约每个字1个token，其他文本大约每4个字符1个token。
+// 没有引入分词器，结果偏保守即可
+export function estimateTokens(text: string): number {
+  const cjkCount = (text.match(/[　-鿿가-힯＀-￯]/g) || []).length;
+  return cjkCount + Math.ceil((text.length - cjkCount) / 4);
+}
+
+export function countChatTokens(messages: ChatMessage[]): number {
+  return messages.reduce((total, message) => {
+    const toolCallTokens = (message.tool_calls || []).reduce(
+      (sum, call) => sum + estimateTokens(call.function.name) + estimateTokens(call.function.arguments),
+      0,
+    );
+    return total + MESSAGE_OVERHEAD_TOKENS + estimateTokens(message.content) + toolCallTokens;
+  }, 0);
+}
+
+// 本轮可以发送给模型的历史token上限
+export function getContextBudget(model: LlmModel | undefined, conversation: Conversation): number {
+  const modelBudget = (model?.contextWindow || DEFAULT_CONTEXT_WINDOW) - RESERVED_TOKENS;
+  return conversation.contextTokens ? Math.min(conversation.contextTokens, modelBudget) : modelBudget;
+}
+
+// 按用户消息把历史切分成轮次；一轮包含用户消息及其后的助手和工具消息，
+// 整轮丢弃可以保证工具调用和它的结果不会被拆开
+export function splitIntoTurns(messages: Message[]): Message[][] {
+  const turns: Message[][] = [];
+  for (const message of messages) {
+    if (message.role === "user" || turns.length === 0) {
+      turns.push([message]);
+    } else {
+      turns[turns.length - 1].push(message);
+    }
+  }
+  return turns;
+}
+
+// 工具结果可能很长，摘要时只保留开头
+const MAX_SUMMARY_LINE_LENGTH = 2000;
+
+// 生成请求模型摘要较早消息的提示
+export function buildSummaryRequest(previousSummary: string | undefined, messages: Message[]): ChatMessage[] {
+  const transcript = messages
+    .filter((message) => message.content)
+    .map((message) => `${message.role}: ${message.content.slice(0, MAX_SUMMARY_LINE_LENGTH)}`)
+    .join("\n\n");
+
+  return [
+    {
+      role: "system",
+      content: "你负责压缩对话历史。请把给出的对话总结为简洁的摘要，保留关键事实、用户的偏好和要求、已做出的决定、工具调用得到的重要结果以及尚未解决的问题。只输出摘要本身。",
+    },
+    {
+      role: "user",
+      content: previousSummary
+        ? `已有的摘要：\n${previousSummary}\n\n需要并入摘要的后续对话：\n${transcript}`
+        : `需要总结的对话：\n${transcript}`,
+    },
+  ];
+}
@@ -0,0 +1,258 @@
+import { format } from "date-fns";
+import {
+  CONVERSATION_EXPORT_VERSION,
+  type Conversation,
+  type ConversationExport,
+  type ConversationExportFormat,
+  type Message,
+  type ToolCallRecord,
+} from "@shared/schema";
+import { storage } from "./storage";
+
+// 把对话导出为 Markdown、HTML 或 JSON。Markdown 和 HTML 用于阅读，只包含当前分支；
+// JSON 包含所有分支和摘要，可以重新导入
+
+export interface ExportedFile {
+  filename: string;
+  contentType: string;
+  content: string;
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  system: "系统",
+  user: "用户",
+  assistant: "助手",
+  tool: "工具",
+  summary: "摘要",
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  awaiting_approval: "等待批准",
+  running: "执行中",
+  approved: "已批准",
+  rejected: "已拒绝",
+  interrupted: "已中断",
+};
+
+// 助手消息请求的工具调用；兼容只存了单个调用的旧消息
+function getToolCalls(message: Message): ToolCallRecord[] {
+  const toolCall = message.toolCall as ({ calls?: ToolCallRecord[] } & Partial<ToolCallRecord>) | null;
+  if (!toolCall) return [];
+  if (Array.isArray(toolCall.calls)) return toolCall.calls;
+  return toolCall.name ? [toolCall as ToolCallRecord] : [];
+}
+
+function formatTime(date: Date): string {
+  return format(date, "yyyy-MM-dd HH:mm:ss");
+}
+
+function formatJson(value: unknown): string {
+  return JSON.stringify(value, null, 2);
+}
+
+// 文件名只保留标题中可以安全使用的字符
+function getFilename(conversation: Conversation, extension: string): string {
+  const base = conversation.title.replace(/[\\/:*?"<>|\r\n]+/g, " ").trim().slice(0, 80) || `conversation-${conversation.id}`;
+  return `${base}.${extension}`;
+}
+
+// 工具消息的文本只是结果的简述，有结果时直接显示参数和结果
+function hasDisplayedContent(message: Message): boolean {
+  return !!message.content && !(message.role === "tool" && message.toolResult != null);
+}
+
+// 消息的标题行：角色、工具名、状态和时间
+function getMessageHeading(message: Message): string {
+  const toolName = message.role === "tool" ? (message.toolCall as ToolCallRecord | null)?.name : undefined;
+  const status = message.status ? STATUS_LABELS[message.status] ?? message.status : undefined;
+  return [
+    (ROLE_LABELS[message.role] ?? message.role) + (toolName ? ` ${toolName}` : ""),
+    status,
+    formatTime(message.timestamp),
+  ].filter(Boolean).join(" · ");
+}
+
+interface ExportData {
+  conversation: Conversation;
+  systemPrompt: { title: string; content: string } | null;
+  // 全部消息（所有分支和摘要），按ID排序
+  tree: Message[];
+  // 当前分支
+  branch: Message[];
+}
+
+async function loadExportData(conversation: Conversation): Promise<ExportData> {
+  const [tree, summaryMessages, branch, systemPrompt] = await Promise.all([
+    storage.getConversationMessageTree(conversation.id),
+    storage.getSummaryMessages(conversation.id),
+    storage.getConversationMessages(conversation.id),
+    conversation.systemPromptId ? storage.getSystemPrompt(conversation.systemPromptId) : undefined,
+  ]);
+  return {
+    conversation,
+    systemPrompt: systemPrompt ? { title: systemPrompt.title, content: systemPrompt.content } : null,
+    tree: [...tree, ...summaryMessages].sort((a, b) => a.id - b.id),
+    branch,
+  };
+}
+
+// 代码块的围栏比内容中最长的连续反引号更长，内容里的 ``` 不会提前结束代码块
+function fence(content: string, language = ""): string {
+  const longest = Math.max(0, ...(content.match(/`+/g) || []).map((run) => run.length));
+  const marker = "`".repeat(Math.max(3, longest + 1));
+  return `${marker}${language}\n${content}\n${marker}`;
+}
+
+function renderMarkdown({ conversation, systemPrompt, branch }: ExportData): string {
+  const lines: string[] = [`# ${conversation.title}`, ""];
+  lines.push(`- 创建时间：${formatTime(conversation.timestamp)}`);
+  lines.push(`- 导出时间：${formatTime(new Date())}`);
+  if (conversation.model) lines.push(`- 模型：${conversation.model}`);
+  lines.push("");
+
+  if (systemPrompt) {
+    lines.push(`## 系统提示：${systemPrompt.title}`, "", fence(systemPrompt.content, "text"), "");
+  }
+
+  for (const message of branch) {
+    lines.push("---", "", `### ${getMessageHeading(message)}`, "");
+    if (hasDisplayedContent(message)) lines.push(message.content, "");
+
+    for (const call of message.role === "assistant" ? getToolCalls(message) : []) {
+      lines.push(`**调用工具 \`${call.name}\`**`, "", fence(formatJson(call.parameters ?? {}), "json"), "");
+    }
+    if (message.role === "tool") {
+      const call = message.toolCall as ToolCallRecord | null;
+      if (call?.parameters) lines.push("参数：", "", fence(formatJson(call.parameters), "json"), "");
+      if (message.toolResult != null) lines.push("结果：", "", fence(formatJson(message.toolResult), "json"), "");
+    }
+  }
+
+  return lines.join("\n");
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const HTML_STYLE = `
+body { font-family: system-ui, sans-serif; max-width: 860px; margin: 2rem auto; padding: 0 1rem; color: #111827; }
+header p { color: #6b7280; margin: 0.25rem 0; }
+.message { border: 1px solid #e5e7eb; border-radius: 8px; padding: 0.75rem 1rem; margin: 1rem 0; }
+.message.user { background: #eff6ff; }
+.message.tool, .message.summary, .system-prompt { background: #f9fafb; }
+.meta { font-size: 0.8rem; color: #6b7280; margin-bottom: 0.5rem; }
+.content { white-space: pre-wrap; word-break: break-word; }
+pre { background: #f3f4f6; padding: 0.5rem; border-radius: 4px; overflow-x: auto; font-size: 0.8rem; }
+h3 { font-size: 0.85rem; margin: 0.75rem 0 0.25rem; }
+`;
+
+function renderHtml({ conversation, systemPrompt, branch }: ExportData): string {
+  const sections = branch.map((message) => {
+    const parts = [`<div class="meta">${escapeHtml(getMessageHeading(message))}</div>`];
+    if (hasDisplayedContent(message)) parts.push(`<div class="content">${escapeHtml(message.content)}</div>`);
+
+    for (const call of message.role === "assistant" ? getToolCalls(message) : []) {
+      parts.push(`<h3>调用工具 <code>${escapeHtml(call.name)}</code></h3>`);
+      parts.push(`<pre>${escapeHtml(formatJson(call.parameters ?? {}))}</pre>`);
+    }
+    if (message.role === "tool") {
+      const call = message.toolCall as ToolCallRecord | null;
+      if (call?.parameters) parts.push(`<h3>参数</h3><pre>${escapeHtml(formatJson(call.parameters))}</pre>`);
+      if (message.toolResult != null) parts.push(`<h3>结果</h3><pre>${escapeHtml(formatJson(message.toolResult))}</pre>`);
+    }
+    return `<section class="message ${escapeHtml(message.role)}">\n${parts.join("\n")}\n</section>`;
+  });
+
+  const meta = [
+    `创建时间：${formatTime(conversation.timestamp)}`,
+    `导出时间：${formatTime(new Date())}`,
+    ...(conversation.model ? [`模型：${conversation.model}`] : []),
+  ];
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(conversation.title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(conversation.title)}</h1>
+${meta.map((line) => `<p>${escapeHtml(line)}</p>`).join("\n")}
+</header>
+${systemPrompt ? `<section class="system-prompt message">
+<div class="meta">系统提示：${escapeHtml(systemPrompt.title)}</div>
+<div class="content">${escapeHtml(systemPrompt.content)}</div>
+</section>` : ""}
+${sections.join("\n")}
+</body>
+</html>
+`;
+}
+
+async function buildJsonExport({ conversation, systemPrompt, tree }: ExportData): Promise<ConversationExport> {
+  const summaries = await storage.getConversationSummaries(conversation.id);
+  return {
+    version: CONVERSATION_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversation: {
+      title: conversation.title,
+      titleSource: conversation.titleSource,
+      model: conversation.model,
+      contextStrategy: conversation.contextStrategy,
+      contextTokens: conversation.contextTokens,
+      activeMessageId: conversation.activeMessageId,
+      timestamp: conversation.timestamp.toISOString(),
+    },
+    systemPrompt,
+    messages: tree.map((message) => ({
+      id: message.id,
+      role: message.role,
+      content: message.content,
+      parentId: message.parentId,
+      toolCall: message.toolCall,
+      toolResult: message.toolResult,
+      status: message.status,
+      summarizedUntil: message.summarizedUntil,
+      timestamp: message.timestamp.toISOString(),
+    })),
+    summaries: summaries.map((summary) => ({
+      content: summary.content,
+      lastMessageId: summary.lastMessageId,
+      timestamp: summary.timestamp.toISOString(),
+    })),
+  };
+}
+
+export async function exportConversation(
+  conversation: Conversation,
+  exportFormat: ConversationExportFormat
+): Promise<ExportedFile> {
+  const data = await loadExportData(conversation);
+  switch (exportFormat) {
+    case "json":
+      return {
+        filename: getFilename(conversation, "json"),
+        contentType: "application/json; charset=utf-8",
+        content: formatJson(await buildJsonExport(data)),
+      };
+    case "html":
+      return {
+        filename: getFilename(conversation, "html"),
+        contentType: "text/html; charset=utf-8",
+        content: renderHtml(data),
+      };
+    case "md":
+      return {
+        filename: getFilename(conversation, "md"),
+        contentType: "text/markdown; charset=utf-8",
+        content: renderMarkdown(data),
+      };
+  }
+}
@@ -0,0 +1,345 @@
+import { createHash } from "crypto";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+import {
+  conversationExportSchema,
+  type ConversationImportItem,
+  type InsertMessage,
+  type ToolCallRecord,
+} from "@shared/schema";
+import { storage, type ImportedConversation } from "./storage";
+
+// 从导出文件导入对话：支持本应用的 JSON 导出和 ChatGPT 的 conversations.json。
+// 每个对话按来源计算导入键，同一来源再次导入时跳过，因此重复导入同一个文件不会产生重复对话
+
+const MESSAGE_ROLES = new Set(["system", "user", "assistant", "tool", "summary"]);
+
+// 从文件中读出的一个对话，尚未关联到用户
+interface ParsedConversation extends Omit<ImportedConversation, "conversation"> {
+  source: ConversationImportItem["source"];
+  importKey: string;
+  conversation: Omit<ImportedConversation["conversation"], "userId" | "importKey" | "systemPromptId">;
+  systemPrompt: { title: string; content: string } | null;
+}
+
+function hash(value: unknown): string {
+  return createHash("sha256").update(JSON.stringify(value)).digest("hex");
+}
+
+function parseDate(value: string | number | null | undefined, fallback: Date): Date {
+  if (value === null || value === undefined) return fallback;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? fallback : date;
+}
+
+// 工具调用中的 toolId 指向原用户的 mcp_tools 记录，导入后没有意义
+function stripToolIds(toolCall: unknown): InsertMessage["toolCall"] {
+  if (!toolCall || typeof toolCall !== "object") return null;
+  const { toolId, ...record } = toolCall as ToolCallRecord & { calls?: ToolCallRecord[] };
+  if (Array.isArray(record.calls)) {
+    return { ...record, calls: record.calls.map(({ toolId, ...call }) => call) };
+  }
+  return record;
+}
+
+function parseAppExport(raw: unknown): ParsedConversation {
+  const parsed = conversationExportSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(fromZodError(parsed.error).message);
+  }
+  const { exportedAt, ...exported } = parsed.data;
+  const createdAt = parseDate(exported.conversation.timestamp, new Date());
+
+  // 消息按创建顺序编号，按ID排序后父消息总在子消息之前
+  const sorted = [...exported.messages].sort((a, b) => a.id - b.id);
+  const indexById = new Map(sorted.map((message, index) => [message.id, index]));
+  const indexOf = (id: number | null) => (id !== null ? indexById.get(id) ?? null : null);
+  // 摘要不在消息树中；较早的导出文件里摘要位于分支中间，它的子消息改为接在摘要的父消息后面。
+  // treeParents 记录每条消息在树中的父消息位置
+  const treeParents: (number | null)[] = [];
+  const treeParentOf = (index: number | null) =>
+    index !== null && sorted[index].role === "summary" ? treeParents[index] ?? null : index;
+
+  const importedMessages = sorted.map((message, index) => {
+    if (!MESSAGE_ROLES.has(message.role)) {
+      throw new Error(`Unknown message role: ${message.role}`);
+    }
+    const parent = indexOf(message.parentId);
+    treeParents.push(parent !== null && parent < index ? treeParentOf(parent) : null);
+    return {
+      role: message.role,
+      content: message.content,
+      toolCall: stripToolIds(message.toolCall),
+      toolResult: (message.toolResult ?? null) as InsertMessage["toolResult"],
+      status: message.status,
+      parentIndex: message.role === "summary" ? null : treeParents[index],
+      summarizedUntilIndex: indexOf(message.summarizedUntil),
+      timestamp: parseDate(message.timestamp, createdAt),
+    };
+  });
+
+  return {
+    source: "app",
+    // 导出时间不同的同一份内容视为同一来源
+    importKey: `app:${hash(exported)}`,
+    conversation: {
+      title: exported.conversation.title,
+      titleSource: exported.conversation.titleSource,
+      model: exported.conversation.model,
+      contextStrategy: exported.conversation.contextStrategy,
+      contextTokens: exported.conversation.contextTokens,
+      timestamp: createdAt,
+    },
+    systemPrompt: exported.systemPrompt,
+    messages: importedMessages,
+    summaries: exported.summaries.flatMap((summary) => {
+      const lastMessageIndex = indexOf(summary.lastMessageId);
+      return lastMessageIndex === null ? [] : [{
+        content: summary.content,
+        lastMessageIndex,
+        timestamp: parseDate(summary.timestamp, createdAt),
+      }];
+    }),
+    activeMessageIndex: treeParentOf(indexOf(exported.conversation.activeMessageId)),
+  };
+}
+
+// ChatGPT conversations.json：每个对话的消息以树的形式存放在 mapping 中（包括编辑和重新生成产生的分支），
+// current_node 是当前显示的分支的末端
+const chatGPTMessageSchema = z.object({
+  id: z.string(),
+  author: z.object({ role: z.string(), name: z.string().nullish() }).passthrough(),
+  create_time: z.number().nullish(),
+  content: z.object({
+    content_type: z.string().optional(),
+    parts: z.array(z.unknown()).optional(),
+    text: z.string().optional(),
+    result: z.string().optional(),
+  }).passthrough().nullish(),
+  recipient: z.string().nullish(),
+  metadata: z.record(z.unknown()).nullish(),
+}).passthrough();
+
+const chatGPTConversationSchema = z.object({
+  id: z.string().optional(),
+  conversation_id: z.string().optional(),
+  title: z.string().nullish(),
+  create_time: z.number().nullish(),
+  current_node: z.string().nullish(),
+  mapping: z.record(z.object({
+    id: z.string(),
+    message: chatGPTMessageSchema.nullish(),
+    parent: z.string().nullish(),
+    children: z.array(z.string()).optional(),
+  }).passthrough()),
+}).passthrough();
+
+type ChatGPTMessage = z.infer<typeof chatGPTMessageSchema>;
+
+// 取出消息的文本；图片等非文本内容用占位符代替，思考过程等不显示的内容返回空字符串
+function getChatGPTText(message: ChatGPTMessage): string {
+  const content = message.content;
+  if (!content) return "";
+  switch (content.content_type) {
+    case "text":
+    case "multimodal_text":
+      return (content.parts || [])
+        .map((part) => (typeof part === "string" ? part : "[附件]"))
+        .join("\n")
+        .trim();
+    case "code":
+    case "execution_output":
+      return content.text || "";
+    case "tether_browsing_display":
+      return content.result || "";
+    case "tether_quote":
+      return content.text || "";
+    default:
+      return "";
+  }
+}
+
+function parseChatGPTConversation(raw: unknown): ParsedConversation {
+  const parsed = chatGPTConversationSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(fromZodError(parsed.error).message);
+  }
+  const chat = parsed.data;
+  const createdAt = parseDate(chat.create_time ? chat.create_time * 1000 : null, new Date());
+  const importedMessages: ImportedConversation["messages"] = [];
+  // mapping 节点ID -> 该节点或其最近的已导入祖先对应的消息位置
+  const indexByNode = new Map<string, number | null>();
+
+  // 把一条 ChatGPT 消息转换为本应用的消息；隐藏的系统消息和没有文本的消息返回 null
+  const convert = (message: ChatGPTMessage, parentIndex: number | null): ImportedConversation["messages"][number] | null => {
+    if (message.metadata?.is_visually_hidden_from_conversation) return null;
+    const text = getChatGPTText(message);
+    // 没有时间的消息沿用父消息的时间
+    const parentTime = parentIndex !== null ? importedMessages[parentIndex].timestamp : createdAt;
+    const base = {
+      parentIndex,
+      summarizedUntilIndex: null,
+      status: null,
+      timestamp: parseDate(message.create_time ? message.create_time * 1000 : null, parentTime),
+    };
+
+    switch (message.author.role) {
+      case "user":
+        return text ? { ...base, role: "user", content: text, toolCall: null, toolResult: null } : null;
+      case "assistant": {
+        if (message.recipient && message.recipient !== "all") {
+          // 发给工具（如 python、browser）的消息是一次工具调用
+          let parameters: Record<string, unknown>;
+          try {
+            const value = JSON.parse(text);
+            parameters = value && typeof value === "object" && !Array.isArray(value) ? value : { input: text };
+          } catch {
+            parameters = message.content?.content_type === "code" ? { code: text } : { input: text };
+          }
+          const call: ToolCallRecord = { id: message.id, name: message.recipient, parameters };
+          return { ...base, role: "assistant", content: "", toolCall: { calls: [call] }, toolResult: null };
+        }
+        return text ? { ...base, role: "assistant", content: text, toolCall: null, toolResult: null } : null;
+      }
+      case "tool": {
+        const name = message.author.name || "tool";
+        // 工具结果的父消息通常就是发起调用的助手消息
+        const parent = parentIndex !== null ? importedMessages[parentIndex] : undefined;
+        const request = (parent?.toolCall as { calls?: ToolCallRecord[] } | null)?.calls?.[0];
+        const toolResult = { output: text };
+        return {
+          ...base,
+          role: "tool",
+          content: `工具 "${name}" 返回: ${JSON.stringify(toolResult)}`,
+          toolCall: { id: request?.id, name, parameters: request?.parameters ?? {} },
+          toolResult,
+        };
+      }
+      default:
+        // 系统消息（自定义指令等）不导入
+        return null;
+    }
+  };
+
+  // 从根节点开始按顺序遍历，父消息总在子消息之前
+  const roots = Object.values(chat.mapping).filter((node) => !node.parent || !chat.mapping[node.parent]);
+  const stack = roots.reverse().map((node) => ({ nodeId: node.id, parentIndex: null as number | null }));
+  while (stack.length > 0) {
+    const { nodeId, parentIndex } = stack.pop()!;
+    const node = chat.mapping[nodeId];
+    if (!node || indexByNode.has(nodeId)) continue;
+
+    const message = node.message ? convert(node.message, parentIndex) : null;
+    const index = message ? importedMessages.push(message) - 1 : parentIndex;
+    indexByNode.set(nodeId, index);
+
+    for (const childId of [...(node.children || [])].reverse()) {
+      stack.push({ nodeId: childId, parentIndex: index });
+    }
+  }
+
+  const sourceId = chat.conversation_id || chat.id;
+  return {
+    source: "chatgpt",
+    importKey: `chatgpt:${sourceId ?? hash(chat)}`,
+    conversation: {
+      title: chat.title?.trim() || "ChatGPT 对话",
+      titleSource: chat.title?.trim() ? "generated" : "default",
+      model: null,
+      timestamp: createdAt,
+    },
+    systemPrompt: null,
+    messages: importedMessages,
+    summaries: [],
+    activeMessageIndex: chat.current_node ? indexByNode.get(chat.current_node) ?? null : null,
+  };
+}
+
+function parseConversation(raw: unknown): ParsedConversation {
+  if (raw && typeof raw === "object" && "mapping" in raw) {
+    return parseChatGPTConversation(raw);
+  }
+  if (raw && typeof raw === "object" && "version" in raw) {
+    return parseAppExport(raw);
+  }
+  throw new Error("Unrecognized conversation format");
+}
+
+// 导入时使用用户已有的同内容系统提示，没有时新建
+async function resolveSystemPromptId(userId: number, prompt: ParsedConversation["systemPrompt"]): Promise<number | null> {
+  if (!prompt) return null;
+  const existing = (await storage.getUserSystemPrompts(userId)).find((p) => p.content === prompt.content);
+  if (existing) return existing.id;
+  const created = await storage.createSystemPrompt({ ...prompt, userId, isDefault: false });
+  return created.id;
+}
+
+// 导入文件中的所有对话；dryRun 时不写入任何数据，只返回每个对话会被如何处理
+export async function importConversations(
+  userId: number,
+  data: unknown,
+  dryRun = false
+): Promise<ConversationImportItem[]> {
+  const rawConversations = Array.isArray(data) ? data : [data];
+  const items: ConversationImportItem[] = [];
+  // 同一文件中重复的对话只导入一次
+  const seenKeys = new Set<string>();
+
+  for (const raw of rawConversations) {
+    let parsed: ParsedConversation;
+    try {
+      parsed = parseConversation(raw);
+    } catch (error) {
+      const title = raw && typeof raw === "object"
+        ? (raw as { title?: unknown; conversation?: { title?: unknown } }).title ??
+          (raw as { conversation?: { title?: unknown } }).conversation?.title
+        : undefined;
+      items.push({
+        title: typeof title === "string" ? title : "",
+        source: raw && typeof raw === "object" && "mapping" in raw ? "chatgpt" : "app",
+        messageCount: 0,
+        status: "invalid",
+        error: error instanceof Error ? error.message : String(error),
+      });
+      continue;
+    }
+
+    const item: ConversationImportItem = {
+      title: parsed.conversation.title,
+      source: parsed.source,
+      messageCount: parsed.messages.length,
+      status: "create",
+    };
+    items.push(item);
+
+    const existing = await storage.getConversationByImportKey(userId, parsed.importKey);
+    if (existing || seenKeys.has(parsed.importKey)) {
+      item.status = "skip";
+      item.conversationId = existing?.id;
+      continue;
+    }
+    seenKeys.add(parsed.importKey);
+    if (dryRun) continue;
+
+    // 只保留本应用中存在的模型
+    const model = parsed.conversation.model && (await storage.getLlmModelByName(parsed.conversation.model))
+      ? parsed.conversation.model
+      : null;
+    const conversation = await storage.importConversation({
+      conversation: {
+        ...parsed.conversation,
+        model,
+        userId,
+        importKey: parsed.importKey,
+        systemPromptId: await resolveSystemPromptId(userId, parsed.systemPrompt),
+        enabledTools: [],
+      },
+      messages: parsed.messages,
+      summaries: parsed.summaries,
+      activeMessageIndex: parsed.activeMessageIndex,
+    });
+    item.conversationId = conversation.id;
+  }
+
+  return items;
+}
@@ -0,0 +1,48 @@
+import { pendingToolStatuses } from "@shared/schema";
+import { storage } from "./storage";
+import { generateChatCompletion } from "./llm";
+import { buildSummaryRequest } from "./context";
+
+// 对话的滚动摘要：每累积一定数量的新消息，在后台把它们并入上一份摘要
+
+// 每多少条新消息更新一次摘要
+export const SUMMARY_INTERVAL = parseInt(process.env.CONVERSATION_SUMMARY_INTERVAL || "", 10) || 10;
+
+// 正在生成摘要的对话，避免同一对话同时发起多次请求
+const summarizing = new Set<number>();
+
+// 在后台检查并更新对话摘要；不阻塞当前请求，失败只记录日志，下次再尝试
+export function scheduleConversationSummary(conversationId: number) {
+  if (summarizing.has(conversationId)) return;
+  summarizing.add(conversationId);
+
+  updateConversationSummary(conversationId)
+    .catch((error) => console.error(`Error summarizing conversation ${conversationId}:`, error))
+    .finally(() => summarizing.delete(conversationId));
+}
+
+async function updateConversationSummary(conversationId: number) {
+  const conversation = await storage.getConversation(conversationId);
+  if (!conversation) return;
+
+  const conversationMessages = await storage.getConversationMessages(conversationId);
+  // 工具循环暂停时等它继续后再摘要，避免摘要中出现没有结果的调用
+  if (conversationMessages.some((m) => m.role === "tool" && pendingToolStatuses.includes(m.status))) return;
+
+  // 上一份摘要属于其他分支时从头摘要当前分支
+  const latest = await storage.getLatestConversationSummary(conversationId);
+  const previous = latest && conversationMessages.some((m) => m.id === latest.lastMessageId) ? latest : undefined;
+  const newMessages = conversationMessages.filter((m) =>
+    m.role !== "summary" && (!previous || m.id > previous.lastMessageId));
+  if (newMessages.length < SUMMARY_INTERVAL) return;
+
+  const content = await generateChatCompletion(
+    buildSummaryRequest(previous?.content, newMessages),
+    { model: conversation.model, temperature: 0.3 }
+  );
+  await storage.createConversationSummary({
+    conversationId,
+    content,
+    lastMessageId: newMessages[newMessages.length - 1].id,
+  });
+}
@@ -0,0 +1,62 @@
+import type { Conversation } from "@shared/schema";
+import { storage } from "./storage";
+import { generateChatCompletion } from "./llm";
+
+// 用模型根据对话开头生成简短的标题
+
+const MAX_TITLE_LENGTH = 50;
+
+// 提问和回复只取开头，足够判断主题
+const MAX_EXCERPT_LENGTH = 1000;
+
+// 去掉模型可能加上的引号、前缀和多余的行
+function cleanTitle(raw: string): string {
+  const firstLine = raw.trim().split("\n")[0] || "";
+  return firstLine
+    .replace(/^(标题|title)\s*[:：]\s*/i, "")
+    .replace(/^["'“”‘’《「]+|["'“”‘’》」。.]+$/g, "")
+    .trim()
+    .slice(0, MAX_TITLE_LENGTH);
+}
+
+// 根据第一条用户消息和第一条助手回复生成标题并保存；还没有回复时返回 undefined。
+// onlyDefault 为 true 时只替换默认标题（包括生成期间用户改过名的情况）
+export async function generateConversationTitle(
+  conversationId: number,
+  { onlyDefault = false } = {}
+): Promise<Conversation | undefined> {
+  const conversation = await storage.getConversation(conversationId);
+  if (!conversation || (onlyDefault && conversation.titleSource !== "default")) return undefined;
+
+  const conversationMessages = await storage.getConversationMessages(conversationId);
+  const question = conversationMessages.find((m) => m.role === "user");
+  const answer = conversationMessages.find((m) => m.role === "assistant" && m.content);
+  if (!question || !answer) return undefined;
+
+  const title = cleanTitle(await generateChatCompletion([
+    {
+      role: "system",
+      content: "请根据下面的对话开头，用与用户相同的语言生成一个简洁的对话标题（不超过20个字），概括对话主题。只输出标题本身，不要加引号或标点。",
+    },
+    {
+      role: "user",
+      content: `用户：${question.content.slice(0, MAX_EXCERPT_LENGTH)}\n\n助手：${answer.content.slice(0, MAX_EXCERPT_LENGTH)}`,
+    },
+  ], { model: conversation.model, temperature: 0.3 }));
+  if (!title) return undefined;
+
+  if (onlyDefault && (await storage.getConversation(conversationId))?.titleSource !== "default") {
+    return undefined;
+  }
+  return storage.updateConversationTitle(conversationId, title, "generated");
+}
+
+// 第一条回复之后自动命名；失败时保留原标题，不影响本轮对话
+export async function autoTitleConversation(conversationId: number): Promise<Conversation | undefined> {
+  try {
+    return await generateConversationTitle(conversationId, { onlyDefault: true });
+  } catch (error) {
+    console.error(`Error generating title for conversation ${conversationId}:`, error);
+    return undefined;
+  }
+}
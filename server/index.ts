@@ -2,8 +2,12 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { mcpService } from "./mcp-client";
+import { initializeLlmProviders } from "./llm";
+import { storage } from "./storage";
 
 const app = express();
+// 导入接口接收完整的导出文件，其他接口使用默认的大小限制
+app.use("/api/conversations/import", express.json({ limit: "50mb" }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -52,6 +56,28 @@ app.use((req, res, next) => {
     console.log("Continuing with default tools only");
   }
 
+  try {
+    // 写入默认的LLM提供商和模型
+    await initializeLlmProviders();
+  } catch (error) {
+    console.error("Failed to initialize LLM providers:", error);
+  }
+
+  try {
+    // 把以前存在分支中间的摘要消息移出消息树
+    await storage.detachSummaryMessages();
+  } catch (error) {
+    console.error("Failed to detach summary messages:", error);
+  }
+
+  try {
+    // 还没有管理员时（升级前创建的账号）让最早的账号成为管理员
+    const admin = await storage.promoteFirstUserToAdmin();
+    if (admin) console.log(`Promoted ${admin.username} to admin`);
+  } catch (error) {
+    console.error("Failed to promote an admin:", error);
+  }
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
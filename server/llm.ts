@@ -0,0 +1,117 @@
+import { storage } from "./storage";
+import { createProvider, MockProvider, type ChatMessage, type LLMProvider } from "./providers";
+import { DEFAULT_LLM_PROVIDERS } from "./llmProviders";
+
+export type { ChatMessage, ChatToolCall } from "./providers";
+
+export interface ResolvedModel {
+  provider: LLMProvider;
+  model: string;
+}
+
+export interface ChatCompletionSettings {
+  // llm_models.name; omitted uses the default model
+  model?: string | null;
+  temperature?: number;
+  // Aborts the request; the abort error is rethrown as is
+  signal?: AbortSignal;
+}
+
+// Seed the default providers and models when none are configured
+export async function initializeLlmProviders() {
+  const existingProviders = await storage.getLlmProviders();
+  if (existingProviders.length > 0) return;
+
+  for (const { models, ...provider } of DEFAULT_LLM_PROVIDERS) {
+    const newProvider = await storage.createLlmProvider(provider);
+    for (const model of models) {
+      await storage.createLlmModel({ ...model, providerId: newProvider.id });
+    }
+  }
+}
+
+// LLM_PROVIDER=mock answers every model with the offline mock provider (no network or API key needed)
+const useMockProvider = process.env.LLM_PROVIDER === "mock";
+
+// Look up a model by name (or the default model) and build its provider
+export async function resolveModel(modelName?: string | null): Promise<ResolvedModel> {
+  if (useMockProvider) {
+    return { provider: new MockProvider(), model: modelName || "mock" };
+  }
+
+  const model = modelName
+    ? await storage.getLlmModelByName(modelName)
+    : await storage.getDefaultLlmModel() ?? (await storage.getLlmModels())[0];
+  if (!model) {
+    throw new Error(modelName ? `Unknown model: ${modelName}` : "No LLM models configured");
+  }
+
+  const provider = await storage.getLlmProvider(model.providerId);
+  if (!provider) {
+    throw new Error(`Provider for model ${model.name} not found`);
+  }
+
+  return { provider: createProvider(provider), model: model.name };
+}
+
+// Filter out tool messages or convert them to a format the model can understand
+function formatMessages(messages: ChatMessage[]): ChatMessage[] {
+  return messages.map(msg => {
+    if (msg.role === 'tool') {
+      // Convert tool messages to system messages with appropriate prefixes
+      return {
+        role: 'system' as const,
+        content: `Tool result: ${msg.content}`
+      };
+    }
+
+    // Otherwise, keep the original message
+    return {
+      role: msg.role,
+      content: msg.content
+    };
+  });
+}
+
+export async function generateChatCompletion(
+  messages: ChatMessage[],
+  { model, temperature = 0.7, signal }: ChatCompletionSettings = {}
+): Promise<string> {
+  try {
+    const resolved = await resolveModel(model);
+    const response = await resolved.provider.complete(formatMessages(messages), {
+      model: resolved.model,
+      temperature,
+      signal,
+    });
+
+    return response.content;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error("Error calling API:", error);
+    throw new Error("Failed to generate completion");
+  }
+}
+
+// Same as generateChatCompletion, but reports each content delta as it arrives
+export async function streamChatCompletion(
+  messages: ChatMessage[],
+  onDelta: (content: string) => void,
+  { model, temperature = 0.7, signal }: ChatCompletionSettings = {}
+): Promise<string> {
+  try {
+    const resolved = await resolveModel(model);
+    const response = await resolved.provider.complete(formatMessages(messages), {
+      model: resolved.model,
+      temperature,
+      onDelta,
+      signal,
+    });
+
+    return response.content;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error("Error calling API:", error);
+    throw new Error("Failed to generate completion");
+  }
+}
@@ -0,0 +1,28 @@
+import type { InsertLlmModel, InsertLlmProvider } from "@shared/schema";
+
+// 预置的LLM提供商和模型，数据库中没有任何提供商时写入
+
+export interface DefaultLlmProvider extends InsertLlmProvider {
+  models: Omit<InsertLlmModel, "providerId">[];
+}
+
+export const DEFAULT_LLM_PROVIDERS: DefaultLlmProvider[] = [
+  // DeepSeek（兼容OpenAI接口，使用OPENAI_API_KEY）
+  {
+    name: "deepseek",
+    type: "openai-compatible",
+    baseUrl: "https://api.deepseek.com/v1",
+    models: [
+      { name: "deepseek-chat", displayName: "DeepSeek Chat", contextWindow: 65536, isDefault: true }
+    ]
+  },
+  // Anthropic (需要ANTHROPIC_API_KEY)
+  ...(process.env.ANTHROPIC_API_KEY ? [{
+    name: "anthropic",
+    type: "anthropic",
+    models: [
+      { name: "claude-3-7-sonnet-latest", displayName: "Claude 3.7 Sonnet", contextWindow: 200000 },
+      { name: "claude-3-5-haiku-latest", displayName: "Claude 3.5 Haiku", contextWindow: 200000 }
+    ]
+  }] : [])
+];
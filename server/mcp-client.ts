@@ -1,460 +1,562 @@
-import { spawn, ChildProcess } from "child_process";
-import path from "path";
-import OpenAI from "openai";
-import fetch from "node-fetch";
-
-// 创建OpenAI客户端
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-  baseURL: "https://api.deepseek.com/v1", // 使用Deepseek的API端点
-});
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { McpServer } from "@shared/schema";
+import { storage } from "./storage";
+import { resolveModel, type ChatMessage } from "./llm";
+import type { ChatToolDefinition } from "./providers";
+import { DEFAULT_MCP_SERVERS } from "./mcpServers";
 
 export interface MCPToolDefinition {
   name: string;
   description: string;
   inputSchema: Record<string, any>;
+  // 提供该工具的MCP服务器名称
+  serverName: string;
 }
 
 export interface MCPToolResult {
+  // 模型生成的 tool_call_id
+  id?: string;
+  // 服务器上的工具名；模型请求了不存在的工具时为模型给出的函数名，serverName 为空
   name: string;
+  serverName?: string;
   arguments: Record<string, any>;
   result: any;
+  // 需要用户批准的调用在批准前不会执行，result 为 undefined
+  awaitingApproval?: boolean;
+}
+
+// 工具循环中的一步：模型的一次回复及其请求的全部工具调用
+export interface MCPToolStep {
+  content: string;
+  toolCalls: MCPToolResult[];
+}
+
+// 指向某个MCP服务器上的具体工具
+export interface MCPToolRef {
+  serverName: string;
+  toolName: string;
+}
+
+export interface MCPToolLoopOptions {
+  // llm_models.name；未提供时使用默认模型
+  model?: string | null;
+  // 最多执行多少轮工具调用，达到上限后要求模型直接回答
+  maxSteps?: number;
+  // 模型可见且可调用的工具；未提供时不向模型提供任何工具
+  allowedTools?: MCPToolRef[];
+  // 提供时以流式方式请求模型，逐段回调生成的文本
+  onDelta?: (content: string) => void;
+  onToolCallStart?: (call: MCPToolResult) => void;
+  onToolCallEnd?: (call: MCPToolResult) => void;
+  // 中止模型请求和正在执行的工具调用；已完成的步骤和已生成的文本会返回给调用方
+  signal?: AbortSignal;
+}
+
+const DEFAULT_MAX_TOOL_STEPS = parseInt(process.env.MCP_MAX_TOOL_STEPS || "", 10) || 8;
+
+// 对话没有选择系统提示时使用的默认提示
+const TOOL_SYSTEM_PROMPT = "你是一个有用的AI助手，你可以使用提供的工具来回答用户的问题。";
+
+export interface MCPServerStatus {
+  connected: boolean;
+  error?: string;
+  tools: string[];
 }
 
 interface McpServerConfig {
   command: string;
   args: string[];
   env?: Record<string, string>;
+  transport?: string;
   disabled?: boolean;
   autoApprove?: string[];
 }
 
+// 提供给模型的函数名：不同服务器上的同名工具各有自己的函数名。
+// 只能包含字母、数字、下划线和连字符，最长64个字符（OpenAI 和 Anthropic 的限制）
+export function toolFunctionName(serverName: string, toolName: string): string {
+  return `${serverName}__${toolName}`.replace(/[^a-zA-Z0-9_-]/g, "_").slice(0, 64);
+}
+
+function toServerConfig(server: McpServer): McpServerConfig {
+  return {
+    command: server.command,
+    args: server.args,
+    env: server.env,
+    transport: server.transport,
+    disabled: server.disabled,
+    autoApprove: server.autoApprove,
+  };
+}
+
 // 实现基于MCP协议的工具服务
 export class MCPService {
-  private serverProcesses: Map<string, ChildProcess> = new Map();
+  private clients: Map<string, Client> = new Map();
   private tools: MCPToolDefinition[] = [];
   private isConnected: boolean = false;
+  // 服务器配置在第一次初始化时从数据库的 mcp_servers 表加载，之后由 restartServer/stopServer 维护
   private mcpServers: Record<string, McpServerConfig> = {};
+  private configsLoaded = false;
+  private serverErrors: Map<string, string> = new Map();
+
+  // 启动时调用；之后工具目录为空时可以再次调用，只重新连接未连接的服务器，不再读取数据库
+  public async initialize(): Promise<void> {
+    if (!this.configsLoaded) {
+      try {
+        await this.loadServerConfigs();
+        this.configsLoaded = true;
+      } catch (error) {
+        console.error("Failed to load MCP server configurations:", error);
+      }
+    }
 
-  constructor() {
-    // 配置MCP服务器
-    this.mcpServers = {
-      // 默认的内置MCP服务器（模拟天气和城市信息）
-      "built-in-mcp": {
-        command: "tsx",
-        args: [path.join(process.cwd(), "server/mcp-server.ts")],
-        disabled: false,
-        autoApprove: ["get_weather", "get_city_info"]
-      },
-      // Tavily搜索API服务器 (需要TAVILY_API_KEY)
-      "tavily-mcp": {
-        command: "npx",
-        args: ["tavily-mcp"],
-        env: {
-          TAVILY_API_KEY: process.env.TAVILY_API_KEY || ""
-        },
-        disabled: !process.env.TAVILY_API_KEY,
-        autoApprove: []
+    // 获取活跃的MCP服务器
+    const activeServers = Object.entries(this.mcpServers)
+      .filter(([_, config]) => !config.disabled);
+
+    // 连接到活跃的MCP服务器，单个服务器失败不影响其他服务器
+    for (const [serverName, _] of activeServers) {
+      if (this.clients.has(serverName)) continue;
+      await this.startServer(serverName);
+    }
+
+    this.isConnected = true;
+    console.log(
+      "MCP Client initialized successfully with tools:",
+      this.tools.map((t) => t.name),
+    );
+  }
+
+  private async loadServerConfigs(): Promise<void> {
+    let servers = await storage.getMcpServers();
+
+    // 首次启动时写入预置的服务器；管理员删除了全部服务器之后不再写入
+    if (servers.length === 0 && !(await storage.hasCreatedMcpServers())) {
+      for (const server of DEFAULT_MCP_SERVERS) {
+        await storage.createMcpServer(server);
       }
+      servers = await storage.getMcpServers();
+    }
+
+    this.mcpServers = {};
+    for (const server of servers) {
+      this.mcpServers[server.name] = toServerConfig(server);
+    }
+  }
+
+  // 启动（或重启）单个服务器，并刷新工具目录
+  public async restartServer(server: McpServer, previousName?: string): Promise<MCPServerStatus> {
+    if (previousName && previousName !== server.name) {
+      await this.stopServer(previousName);
+    }
+    await this.stopServer(server.name);
+
+    this.mcpServers[server.name] = toServerConfig(server);
+    if (!server.disabled) {
+      await this.startServer(server.name);
+    }
+
+    return this.getServerStatus(server.name);
+  }
+
+  // 停止服务器并从工具目录中移除其工具
+  public async stopServer(serverName: string): Promise<void> {
+    delete this.mcpServers[serverName];
+    this.serverErrors.delete(serverName);
+    this.tools = this.tools.filter((t) => t.serverName !== serverName);
+
+    const client = this.clients.get(serverName);
+    if (!client) return;
+
+    this.clients.delete(serverName);
+    try {
+      await client.close();
+      console.log(`Closed MCP server ${serverName}`);
+    } catch (error) {
+      console.error(`Error closing MCP server ${serverName}:`, error);
+    }
+  }
+
+  public getServerStatus(serverName: string): MCPServerStatus {
+    return {
+      connected: this.clients.has(serverName),
+      error: this.serverErrors.get(serverName),
+      tools: this.tools
+        .filter((t) => t.serverName === serverName)
+        .map((t) => t.name),
     };
   }
 
-  public async initialize(): Promise<void> {
+  private async startServer(serverName: string): Promise<void> {
+    this.serverErrors.delete(serverName);
     try {
-      // 初始化默认工具
-      this.initializeDefaultTools();
-      
-      // 获取活跃的MCP服务器
-      const activeServers = Object.entries(this.mcpServers)
-        .filter(([_, config]) => !config.disabled);
-      
-      // 连接到活跃的MCP服务器
-      for (const [serverName, _] of activeServers) {
-        try {
-          // 使用Tavily API直接集成，而不是通过MCP服务器
-          if (serverName === "tavily-mcp") {
-            this.addTavilySearchTool();
-            continue;
-          }
-          
-          // 对于其他服务器，我们只需启动进程，但不实际连接到它们
-          // 我们将通过直接实现来模拟与它们的交互
-          await this.startMcpServerProcess(serverName);
-        } catch (error) {
-          console.error(`Failed to connect to MCP server ${serverName}:`, error);
+      await this.connectToServer(serverName);
+    } catch (error) {
+      console.error(`Failed to connect to MCP server ${serverName}:`, error);
+      this.serverErrors.set(
+        serverName,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  private createTransport(serverName: string, serverConfig: McpServerConfig): Transport {
+    switch (serverConfig.transport || "stdio") {
+      case "sse":
+        return new SSEClientTransport(new URL(serverConfig.command));
+      case "streamable-http":
+        return new StreamableHTTPClientTransport(new URL(serverConfig.command));
+      case "stdio": {
+        // 准备环境变量（子进程继承当前进程的环境）
+        const processEnv: Record<string, string> = {};
+        for (const [key, value] of Object.entries({ ...process.env, ...serverConfig.env })) {
+          if (value !== undefined) processEnv[key] = value;
         }
+
+        // 通过stdio启动MCP服务器进程
+        const transport = new StdioClientTransport({
+          command: serverConfig.command,
+          args: serverConfig.args,
+          env: processEnv,
+          stderr: "pipe",
+        });
+
+        transport.stderr?.on("data", (data: Buffer) => {
+          console.error(`[${serverName}] stderr: ${data.toString().trim()}`);
+        });
+        return transport;
       }
+      default:
+        throw new Error(`Unsupported MCP transport: ${serverConfig.transport}`);
+    }
+  }
 
-      this.isConnected = true;
-      console.log(
-        "MCP Client initialized successfully with tools:",
-        this.tools.map((t) => t.name),
-      );
+  private async connectToServer(serverName: string): Promise<void> {
+    const serverConfig = this.mcpServers[serverName];
+    if (!serverConfig) {
+      throw new Error(`MCP server configuration not found: ${serverName}`);
+    }
+
+    if (serverConfig.disabled) {
+      throw new Error(`MCP server is disabled: ${serverName}`);
+    }
+
+    console.log(`Starting MCP server: ${serverName}`);
+
+    const transport = this.createTransport(serverName, serverConfig);
+
+    const client = new Client({ name: "ai-chat-sync", version: "1.0.0" });
+    client.onerror = (err: Error) => {
+      console.error(`[${serverName}] Error: ${err.message}`);
+    };
+    client.onclose = () => {
+      console.log(`[${serverName}] Connection closed`);
+      // 重启后旧连接的关闭事件不能影响新连接
+      if (this.clients.get(serverName) !== client) return;
+      this.clients.delete(serverName);
+      this.tools = this.tools.filter((t) => t.serverName !== serverName);
+    };
+
+    // connect() 会完成 initialize 握手，然后通过 tools/list 获取服务器提供的工具
+    let tools;
+    try {
+      await client.connect(transport);
+      ({ tools } = await client.listTools());
     } catch (error) {
-      console.error("Failed to initialize MCP client:", error);
-      // 如果连接失败，仍然使用默认工具
-      this.initializeDefaultTools();
+      await client.close().catch(() => {});
+      throw error;
     }
+    this.clients.set(serverName, client);
+
+    for (const tool of tools) {
+      this.tools.push({
+        name: tool.name,
+        description: tool.description || "",
+        inputSchema: tool.inputSchema,
+        serverName,
+      });
+    }
+
+    console.log(
+      `MCP server ${serverName} connected with tools:`,
+      tools.map((t) => t.name),
+    );
   }
-  
-  private initializeDefaultTools(): void {
-    // 定义默认可用工具
-    this.tools = [
-      {
-        name: "get_weather",
-        description: "获取指定地点的天气信息",
-        inputSchema: {
-          type: "object",
-          properties: {
-            location: {
-              type: "string",
-              description: "城市名称（如：北京，上海）",
-            },
-            date: {
-              type: "string",
-              description: "日期（可选，格式：YYYY-MM-DD）",
-            },
-          },
-          required: ["location"],
-        },
-      },
-      {
-        name: "get_city_info",
-        description: "获取城市的基本信息",
-        inputSchema: {
-          type: "object",
-          properties: {
-            city: {
-              type: "string",
-              description: "城市名称（如：北京，上海，广州）",
-            },
-          },
-          required: ["city"],
-        },
-      },
-    ];
-    
-    this.isConnected = true;
+
+  private findTool(serverName: string, toolName: string): MCPToolDefinition | undefined {
+    return this.tools.find((t) => t.serverName === serverName && t.name === toolName);
   }
-  
-  private addTavilySearchTool(): void {
-    // 手动添加Tavily搜索工具
-    this.tools.push({
-      name: "tavily_search",
-      description: "使用Tavily搜索引擎搜索互联网上的最新信息",
-      inputSchema: {
-        type: "object",
-        properties: {
-          query: {
-            type: "string",
-            description: "要搜索的查询字符串",
-          },
-          search_depth: {
-            type: "string",
-            enum: ["basic", "advanced"],
-            description: "搜索深度，基本或高级",
-            default: "basic"
-          },
-          include_domains: {
-            type: "array",
-            items: {
-              type: "string"
-            },
-            description: "要包含的域名列表",
-            default: []
-          },
-          exclude_domains: {
-            type: "array",
-            items: {
-              type: "string"
-            },
-            description: "要排除的域名列表",
-            default: []
-          },
-          max_results: {
-            type: "integer",
-            description: "最大返回结果数",
-            default: 5
-          }
-        },
-        required: ["query"],
-      }
-    });
-    
-    console.log("已添加Tavily搜索工具: tavily_search");
+
+  // 不在服务器 autoApprove 列表中的工具需要用户批准后才能执行
+  public requiresApproval(serverName: string, toolName: string): boolean {
+    if (!this.findTool(serverName, toolName)) return false;
+    const autoApprove = this.mcpServers[serverName]?.autoApprove || [];
+    return !autoApprove.includes(toolName);
   }
-  
-  private async startMcpServerProcess(serverName: string): Promise<void> {
+
+  // 通过 tools/call 在指定服务器上执行工具
+  public async callTool(
+    toolName: string,
+    args: Record<string, any>,
+    serverName: string,
+    signal?: AbortSignal,
+  ): Promise<any> {
+    const tool = this.findTool(serverName, toolName);
+    if (!tool) {
+      return {
+        error: `工具 "${toolName}" 在MCP服务器 ${serverName} 上不可用`
+      };
+    }
+
+    const client = this.clients.get(tool.serverName);
+    if (!client) {
+      return { error: `MCP服务器 ${tool.serverName} 未连接` };
+    }
+
     try {
-      const serverConfig = this.mcpServers[serverName];
-      if (!serverConfig) {
-        throw new Error(`MCP server configuration not found: ${serverName}`);
-      }
-      
-      if (serverConfig.disabled) {
-        throw new Error(`MCP server is disabled: ${serverName}`);
-      }
-      
-      console.log(`Starting MCP server: ${serverName}`);
-      
-      // 准备环境变量
-      const processEnv = { ...process.env, ...serverConfig.env };
-      
-      // 启动MCP服务器进程
-      const childProcess = spawn(serverConfig.command, serverConfig.args, {
-        env: processEnv,
-        stdio: ["pipe", "pipe", "pipe"],
-        shell: true
-      });
-      
-      // 存储进程
-      this.serverProcesses.set(serverName, childProcess);
-      
-      // 设置进程事件处理
-      childProcess.stdout.on("data", (data: Buffer) => {
-        console.log(`[${serverName}] stdout: ${data.toString().trim()}`);
-      });
-      
-      childProcess.stderr.on("data", (data: Buffer) => {
-        console.error(`[${serverName}] stderr: ${data.toString().trim()}`);
-      });
-      
-      childProcess.on("error", (err: Error) => {
-        console.error(`[${serverName}] Error: ${err.message}`);
-      });
-      
-      childProcess.on("close", (code: number) => {
-        console.log(`[${serverName}] Process exited with code ${code}`);
-        this.serverProcesses.delete(serverName);
-      });
+      const result = (await client.callTool({
+        name: toolName,
+        arguments: args,
+      }, undefined, { signal })) as CallToolResult;
 
-      console.log(`MCP server ${serverName} started successfully`);
+      return this.formatToolResult(result);
     } catch (error) {
-      console.error(`Failed to start MCP server ${serverName}:`, error);
-      throw error;
+      // 协议层错误（如参数校验失败）同样作为工具结果返回给模型
+      console.error(`Error calling MCP tool ${toolName}:`, error);
+      return { error: error instanceof Error ? error.message : String(error) };
     }
   }
 
-  public async processWithTools(userMessage: string): Promise<{
+  // 将MCP工具结果转换为便于存储和回传给模型的格式
+  private formatToolResult(result: CallToolResult): any {
+    const parts = (result.content || []).map((item) => {
+      if (item.type !== "text") return item;
+      try {
+        return JSON.parse(item.text);
+      } catch {
+        return item.text;
+      }
+    });
+
+    const value = parts.length === 1 ? parts[0] : parts;
+    return result.isError ? { error: value } : value;
+  }
+
+  public async processWithTools(
+    history: ChatMessage[],
+    options: MCPToolLoopOptions = {},
+  ): Promise<{
     content: string;
     toolCalls: MCPToolResult[];
+    steps: MCPToolStep[];
+    // 为 true 时本轮对话暂停，等待用户批准最后一步中的工具调用
+    awaitingApproval: boolean;
+    // 为 true 时本轮被中止，content 为中止前已生成的文本
+    interrupted?: boolean;
   }> {
+    const maxSteps = options.maxSteps ?? DEFAULT_MAX_TOOL_STEPS;
+    const { signal } = options;
+    const steps: MCPToolStep[] = [];
+    const allToolCalls = () => steps.flatMap((step) => step.toolCalls);
+    // 正在执行工具调用、尚未加入 steps 的一步
+    let currentStep: MCPToolStep | null = null;
+    // 当前这次模型请求已经生成的文本
+    let partialContent = "";
+    const onDelta = options.onDelta && ((content: string) => {
+      partialContent += content;
+      options.onDelta!(content);
+    });
+
     try {
       // 确保工具已初始化
       if (!this.isConnected) {
         await this.initialize();
       }
 
-      // 从已定义的工具中准备OpenAI工具格式
-      const openaiTools = this.tools.map((tool) => ({
-        type: "function" as const,
-        function: {
-          name: tool.name,
-          description: tool.description,
-          parameters: tool.inputSchema,
-        },
+      // 只向模型提供对话启用的工具；函数名 -> 工具
+      const allowedTools = options.allowedTools || [];
+      const toolsByFunction = new Map<string, MCPToolDefinition>();
+      for (const tool of this.tools) {
+        if (!allowedTools.some((ref) => ref.serverName === tool.serverName && ref.toolName === tool.name)) continue;
+        const functionName = toolFunctionName(tool.serverName, tool.name);
+        if (toolsByFunction.has(functionName)) {
+          console.warn(`Tool function name "${functionName}" is used by more than one tool, skipping ${tool.serverName}/${tool.name}`);
+          continue;
+        }
+        toolsByFunction.set(functionName, tool);
+      }
+
+      // 从已定义的工具中准备提供给模型的工具定义
+      const chatTools: ChatToolDefinition[] = Array.from(toolsByFunction, ([functionName, tool]) => ({
+        name: functionName,
+        description: tool.description,
+        parameters: tool.inputSchema,
       }));
 
-      // 发送请求到LLM
-      const response = await openai.chat.completions.create({
-        model: "deepseek-chat",
-        messages: [
-          {
-            role: "system",
-            content:
-              "你是一个有用的AI助手，你可以使用提供的工具来回答用户的问题。",
-          },
-          { role: "user", content: userMessage },
-        ],
-        tools: openaiTools,
-        tool_choice: "auto",
-      });
+      // 使用完整的对话历史（包括之前的工具调用和结果）
+      const messages = [...history];
+      if (!history.some((message) => message.role === "system")) {
+        messages.unshift({ role: "system", content: TOOL_SYSTEM_PROMPT });
+      }
+
+      const { provider, model } = await resolveModel(options.model);
+
+      // 循环调用LLM，直到模型不再请求工具或达到步数上限
+      for (let step = 0; step < maxSteps; step++) {
+        partialContent = "";
+        const assistantMessage = await provider.complete(messages, {
+          model,
+          tools: chatTools,
+          toolChoice: "auto",
+          onDelta,
+          signal,
+        });
+        const functionCalls = assistantMessage.toolCalls;
+
+        // 没有工具调用，说明模型已经给出最终回答
+        if (functionCalls.length === 0) {
+          return {
+            content: assistantMessage.content || "没有返回内容",
+            toolCalls: allToolCalls(),
+            steps,
+            awaitingApproval: false,
+          };
+        }
+
+        messages.push({
+          role: "assistant",
+          content: assistantMessage.content,
+          tool_calls: functionCalls,
+        });
+
+        // 执行本轮的全部工具调用，并把每个结果回传给模型
+        const stepToolCalls: MCPToolResult[] = [];
+        currentStep = { content: assistantMessage.content || "", toolCalls: stepToolCalls };
+        for (const toolCall of functionCalls) {
+          const tool = toolsByFunction.get(toolCall.function.name);
+          const toolName = tool?.name ?? toolCall.function.name;
+          const serverName = tool?.serverName;
+          let toolArgs: Record<string, any> = {};
+          let result: any;
+
+          try {
+            toolArgs = JSON.parse(toolCall.function.arguments || "{}");
+          } catch (error) {
+            result = { error: `工具参数不是有效的JSON: ${toolCall.function.arguments}` };
+          }
 
-      // 提取助手的回复
-      const assistantMessage = response.choices[0].message;
-      const toolCalls: MCPToolResult[] = [];
-
-      // 处理工具调用
-      if (
-        assistantMessage.tool_calls &&
-        assistantMessage.tool_calls.length > 0
-      ) {
-        for (const toolCall of assistantMessage.tool_calls) {
-          if (toolCall.type === "function") {
-            const toolName = toolCall.function.name;
-            const toolArgs = JSON.parse(toolCall.function.arguments);
-
-            // 工具调用结果
-            let result: any;
-            
-            // 为不同的工具调用执行不同的逻辑
-            if (toolName === "get_weather") {
-              // 模拟天气工具
-              result = await this.executeWeatherTool(toolArgs);
-            } else if (toolName === "get_city_info") {
-              // 模拟城市信息工具
-              result = await this.executeCityInfoTool(toolArgs);
-            } else if (toolName === "tavily_search") {
-              // 使用Tavily API
-              result = await this.executeTavilySearchTool(toolArgs);
-            } else {
-              // 为未知工具提供一个默认回复
-              result = {
-                message: `工具 "${toolName}" 不可用或无法识别。请使用 tavily_search、get_weather 或 get_city_info。`
-              };
-            }
-
-            // 保存工具调用结果
-            toolCalls.push({
+          options.onToolCallStart?.({
+            id: toolCall.id,
+            name: toolName,
+            serverName,
+            arguments: toolArgs,
+            result: undefined,
+          });
+
+          // 未启用的工具一律拒绝
+          if (!result && !tool) {
+            result = { error: `工具 "${toolName}" 未在当前对话中启用` };
+          }
+
+          // 需要批准的调用先不执行
+          if (!result && this.requiresApproval(serverName!, toolName)) {
+            const pendingCall: MCPToolResult = {
+              id: toolCall.id,
               name: toolName,
+              serverName,
               arguments: toolArgs,
-              result,
-            });
-
-            // 将工具结果添加为新消息
-            const toolResultMessage = {
-              role: "tool" as const,
-              tool_call_id: toolCall.id,
-              content: JSON.stringify(result),
+              result: undefined,
+              awaitingApproval: true,
             };
+            stepToolCalls.push(pendingCall);
+            options.onToolCallEnd?.(pendingCall);
+            continue;
+          }
 
-            // 发送带有工具结果的请求到LLM
-            const finalResponse = await openai.chat.completions.create({
-              model: "deepseek-chat",
-              messages: [
-                {
-                  role: "system",
-                  content:
-                    "你是一个有用的AI助手，你可以使用提供的工具来回答用户的问题。",
-                },
-                { role: "user", content: userMessage },
-                assistantMessage,
-                toolResultMessage,
-              ],
-            });
-
-            // 返回最终响应
-            return {
-              content:
-                finalResponse.choices[0].message.content || "没有返回内容",
-              toolCalls,
-            };
+          // 通过MCP协议调用工具
+          if (!result) {
+            result = await this.callTool(toolName, toolArgs, serverName!, signal);
+            // 被中止的调用没有结果，不记录
+            signal?.throwIfAborted();
           }
+
+          const finishedCall: MCPToolResult = {
+            id: toolCall.id,
+            name: toolName,
+            serverName,
+            arguments: toolArgs,
+            result,
+          };
+          stepToolCalls.push(finishedCall);
+          options.onToolCallEnd?.(finishedCall);
+
+          messages.push({
+            role: "tool",
+            tool_call_id: toolCall.id,
+            content: JSON.stringify(result),
+          });
+        }
+
+        steps.push(currentStep);
+        currentStep = null;
+
+        // 有调用等待批准时暂停，批准或拒绝后由调用方重新进入循环
+        if (stepToolCalls.some((call) => call.awaitingApproval)) {
+          return {
+            content: "",
+            toolCalls: allToolCalls(),
+            steps,
+            awaitingApproval: true,
+          };
         }
       }
 
-      // 如果没有工具调用
+      // 达到步数上限，禁止继续调用工具，要求模型根据已有结果回答
+      console.warn(`Tool loop reached the step limit (${maxSteps})`);
+      partialContent = "";
+      const finalMessage = await provider.complete(messages, {
+        model,
+        tools: chatTools,
+        toolChoice: "none",
+        onDelta,
+        signal,
+      });
+
       return {
-        content: assistantMessage.content || "没有返回内容",
-        toolCalls: [],
+        content: finalMessage.content || "没有返回内容",
+        toolCalls: allToolCalls(),
+        steps,
+        awaitingApproval: false,
       };
     } catch (error) {
+      if (signal?.aborted) {
+        // 保留已完成的工具调用，丢弃等待批准的调用（本轮已结束，不能再批准）；
+        // 中止时正在生成的文本作为最终回复的内容
+        if (currentStep) {
+          const finishedCalls = currentStep.toolCalls.filter((call) => !call.awaitingApproval);
+          if (currentStep.content || finishedCalls.length > 0) {
+            steps.push({ ...currentStep, toolCalls: finishedCalls });
+          }
+        }
+        return {
+          content: currentStep ? "" : partialContent,
+          toolCalls: allToolCalls(),
+          steps,
+          awaitingApproval: false,
+          interrupted: true,
+        };
+      }
       console.error("Error processing with MCP tools:", error);
       return {
         content: `处理消息时出错: ${error instanceof Error ? error.message : String(error)}`,
-        toolCalls: [],
-      };
-    }
-  }
-
-  private async executeWeatherTool(args: any): Promise<any> {
-    const location = args.location || "北京";
-    const date = args.date || new Date().toLocaleDateString();
-
-    // 简单模拟，返回随机天气信息
-    const conditions = ["晴朗", "多云", "小雨", "大雨", "雷雨", "大雪", "有雾"];
-    const temperatures = Math.floor(Math.random() * 35) + 5; // 5-40°C
-    const humidity = Math.floor(Math.random() * 60) + 40; // 40-100%
-    const windSpeed = Math.floor(Math.random() * 30) + 1; // 1-30km/h
-
-    const condition = conditions[Math.floor(Math.random() * conditions.length)];
-
-    return {
-      location,
-      date,
-      weather: {
-        condition,
-        temperature: `${temperatures}°C`,
-        humidity: `${humidity}%`,
-        windSpeed: `${windSpeed} km/h`,
-      },
-    };
-  }
-
-  private async executeCityInfoTool(args: any): Promise<any> {
-    const city = args.city || "北京";
-
-    // 城市信息库（模拟）
-    const cityInfo: Record<string, any> = {
-      北京: {
-        country: "中国",
-        population: "21.54 million",
-        area: "16,410 km²",
-        timezone: "UTC+8",
-        famousFor: "故宫，长城，天坛",
-      },
-      上海: {
-        country: "中国",
-        population: "26.32 million",
-        area: "6,340 km²",
-        timezone: "UTC+8",
-        famousFor: "外滩，东方明珠，豫园",
-      },
-      广州: {
-        country: "中国",
-        population: "15.31 million",
-        area: "7,434 km²",
-        timezone: "UTC+8",
-        famousFor: "广州塔，沙面，陈家祠",
-      },
-    };
-
-    const info = cityInfo[city] || {
-      country: "未知",
-      population: "数据不可用",
-      area: "数据不可用",
-      timezone: "未知",
-      famousFor: "未知",
-    };
-
-    return {
-      city,
-      ...info,
-    };
-  }
-
-  private async executeTavilySearchTool(args: any): Promise<any> {
-    console.log(`Calling Tavily search with query: "${args.query}"`);
-    
-    try {
-      // 使用Tavily API
-      const response = await fetch("https://api.tavily.com/search", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${process.env.TAVILY_API_KEY}`
-        },
-        body: JSON.stringify({
-          query: args.query,
-          search_depth: args.search_depth || "basic",
-          include_domains: args.include_domains || [],
-          exclude_domains: args.exclude_domains || [],
-          max_results: args.max_results || 5
-        })
-      });
-      
-      if (!response.ok) {
-        throw new Error(`Tavily API returned status ${response.status}`);
-      }
-      
-      const data = await response.json();
-      console.log("Tavily search results:", data);
-      
-      return data;
-    } catch (error) {
-      console.error("Error calling Tavily API:", error);
-      return {
-        error: `Tavily搜索出错: ${error instanceof Error ? error.message : String(error)}`
+        toolCalls: allToolCalls(),
+        steps,
+        awaitingApproval: false,
       };
     }
   }
@@ -464,25 +566,22 @@ export class MCPService {
   }
 
   public async shutdown(): Promise<void> {
-    try {
-      // 杀死所有MCP服务器进程
-      const processEntries = Array.from(this.serverProcesses.entries());
-      for (const [serverName, childProcess] of processEntries) {
-        try {
-          childProcess.kill();
-          console.log(`Killed MCP server process ${serverName}`);
-        } catch (error) {
-          console.error(`Error killing MCP server process ${serverName}:`, error);
-        }
+    // 关闭所有MCP客户端连接（同时会结束服务器进程）
+    const clientEntries = Array.from(this.clients.entries());
+    for (const [serverName, client] of clientEntries) {
+      try {
+        await client.close();
+        console.log(`Closed MCP server ${serverName}`);
+      } catch (error) {
+        console.error(`Error closing MCP server ${serverName}:`, error);
       }
-      this.serverProcesses.clear();
-      
-      this.isConnected = false;
-    } catch (error) {
-      console.error("Error shutting down MCP service:", error);
     }
+    this.clients.clear();
+    this.tools = [];
+
+    this.isConnected = false;
   }
 }
 
 // 创建单例实例
-export const mcpService = new MCPService();
\ No newline at end of file
+export const mcpService = new MCPService();
@@ -1,4 +1,6 @@
-import { spawn } from "child_process";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { z } from "zod";
 
 interface WeatherParams {
   location: string;
@@ -73,12 +75,49 @@ async function getCityInfo(params: { city: string }): Promise<any> {
   };
 }
 
+// 将工具返回值包装为MCP工具结果
+function toToolResult(value: any) {
+  return {
+    content: [{ type: "text" as const, text: JSON.stringify(value) }]
+  };
+}
+
+// 创建MCP服务器并注册工具
+function createBuiltInServer(): McpServer {
+  const server = new McpServer({
+    name: "built-in-mcp",
+    version: "1.0.0"
+  });
+
+  server.tool(
+    "get_weather",
+    "获取指定地点的天气信息",
+    {
+      location: z.string().describe("城市名称（如：北京，上海）"),
+      date: z.string().optional().describe("日期（可选，格式：YYYY-MM-DD）")
+    },
+    async (params) => toToolResult(await getWeather(params))
+  );
+
+  server.tool(
+    "get_city_info",
+    "获取城市的基本信息",
+    {
+      city: z.string().describe("城市名称（如：北京，上海，广州）")
+    },
+    async (params) => toToolResult(await getCityInfo(params))
+  );
+
+  return server;
+}
+
 async function main() {
-  console.log("MCP Server started and ready to handle requests.");
-  console.log("Available tools: get_weather, get_city_info");
-  
-  // 这只是一个模拟服务器，实际上不需要启动，
-  // 因为mcp-client.ts会直接调用相应的函数而不是通过MCP协议
+  const server = createBuiltInServer();
+  await server.connect(new StdioServerTransport());
+
+  // stdout 用于MCP协议通信，日志只能写到 stderr
+  console.error("MCP Server started and ready to handle requests.");
+  console.error("Available tools: get_weather, get_city_info");
 }
 
 // 捕获任何未处理的错误
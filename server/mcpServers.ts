@@ -0,0 +1,25 @@
+import path from "path";
+import type { InsertMcpServer } from "@shared/schema";
+
+// 预置的MCP服务器配置，数据库中没有任何服务器时写入
+
+export const DEFAULT_MCP_SERVERS: InsertMcpServer[] = [
+  // 默认的内置MCP服务器（模拟天气和城市信息）
+  {
+    name: "built-in-mcp",
+    command: "tsx",
+    args: [path.join(process.cwd(), "server/mcp-server.ts")],
+    transport: "stdio",
+    disabled: false,
+    autoApprove: ["get_weather", "get_city_info"]
+  },
+  // Tavily搜索API服务器 (需要TAVILY_API_KEY，从当前进程的环境变量继承)
+  {
+    name: "tavily-mcp",
+    command: "npx",
+    args: ["tavily-mcp"],
+    transport: "stdio",
+    disabled: !process.env.TAVILY_API_KEY,
+    autoApprove: []
+  }
+];
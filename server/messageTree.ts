@@ -0,0 +1,34 @@
+import type { Message } from "@shared/schema";
+
+// 对话消息以 parentId 组成树：编辑用户消息或重新生成回复会在同一父消息下新增兄弟分支，
+// 对话记录当前分支的末端消息（activeMessageId），历史就是从根到该消息的路径。
+// 这里的函数都接收对话的全部消息（按ID排序）
+
+// 从指定消息沿 parentId 回溯到根，按从旧到新的顺序返回路径
+export function getBranch(messages: Message[], leafId: number | null): Message[] {
+  const byId = new Map(messages.map((message) => [message.id, message]));
+  const branch: Message[] = [];
+  let current = leafId !== null ? byId.get(leafId) : undefined;
+  while (current) {
+    branch.unshift(current);
+    current = current.parentId !== null ? byId.get(current.parentId) : undefined;
+  }
+  return branch;
+}
+
+// 与指定消息同一父消息的所有消息ID（包括自己），按创建顺序排列
+export function getSiblingIds(messages: Message[], message: Message): number[] {
+  return messages
+    .filter((m) => m.parentId === message.parentId)
+    .map((m) => m.id);
+}
+
+// 切换到某个分支时的末端消息：从指定消息开始，每一层都沿最新的子消息向下
+export function findLeaf(messages: Message[], messageId: number): number {
+  let leafId = messageId;
+  while (true) {
+    const children = messages.filter((m) => m.parentId === leafId);
+    if (children.length === 0) return leafId;
+    leafId = children[children.length - 1].id;
+  }
+}
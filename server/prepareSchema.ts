@@ -0,0 +1,83 @@
+import { sql } from "drizzle-orm";
+import { db, pool } from "./db";
+
+// 在 drizzle-kit push 之前运行（npm run db:push）：修正会让新约束无法创建的已有数据，并迁移旧格式的数据。
+// 每一步都可以重复执行；表或列还不存在（新数据库）时跳过
+
+async function hasColumn(table: string, column: string): Promise<boolean> {
+  const result = await db.execute(sql`
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = current_schema() AND table_name = ${table} AND column_name = ${column}
+  `);
+  return result.rows.length > 0;
+}
+
+// 修改行时同时更新 updated_at，让 GET /api/sync 能拿到变化
+async function stampUpdatedAt(table: string) {
+  return (await hasColumn(table, "updated_at")) ? sql`, updated_at = now()` : sql``;
+}
+
+// 每个用户只能有一个默认系统提示（system_prompts_user_default_idx）；保留最新的一个
+async function clearDuplicateDefaultPrompts() {
+  if (!(await hasColumn("system_prompts", "is_default"))) return;
+  const result = await db.execute(sql`
+    UPDATE system_prompts SET is_default = false${await stampUpdatedAt("system_prompts")}
+    WHERE is_default AND user_id IS NOT NULL AND id NOT IN (
+      SELECT max(id) FROM system_prompts WHERE is_default AND user_id IS NOT NULL GROUP BY user_id
+    )
+  `);
+  if (result.rowCount) console.log(`Cleared ${result.rowCount} duplicate default system prompts`);
+}
+
+// 指向已删除消息的 active_message_id 和 summarized_until 会让新的外键无法创建
+async function clearDanglingMessageReferences() {
+  if (await hasColumn("conversations", "active_message_id")) {
+    const result = await db.execute(sql`
+      UPDATE conversations SET active_message_id = NULL${await stampUpdatedAt("conversations")}
+      WHERE active_message_id IS NOT NULL
+        AND NOT EXISTS (SELECT 1 FROM messages WHERE messages.id = conversations.active_message_id)
+    `);
+    if (result.rowCount) console.log(`Cleared ${result.rowCount} dangling active messages`);
+  }
+  if (await hasColumn("messages", "summarized_until")) {
+    const result = await db.execute(sql`
+      UPDATE messages SET summarized_until = NULL${await stampUpdatedAt("messages")}
+      WHERE summarized_until IS NOT NULL
+        AND NOT EXISTS (SELECT 1 FROM messages AS summarized WHERE summarized.id = messages.summarized_until)
+    `);
+    if (result.rowCount) console.log(`Cleared ${result.rowCount} dangling summary references`);
+  }
+}
+
+// 分支功能之前的消息没有 parent_id：列还不存在时先建列，再按 id 顺序把每个对话的消息串起来。
+// 列已存在时说明已经迁移过，不再处理（新对话中的多个根消息是正常的编辑分支）
+async function linkUnbranchedMessages() {
+  if (!(await hasColumn("messages", "id")) || (await hasColumn("messages", "parent_id"))) return;
+  const updatedAt = await stampUpdatedAt("messages");
+  const result = await db.transaction(async (tx) => {
+    await tx.execute(sql`ALTER TABLE messages ADD COLUMN parent_id integer`);
+    return tx.execute(sql`
+      UPDATE messages SET parent_id = ordered.prev_id${updatedAt}
+      FROM (
+        SELECT id, LAG(id) OVER (PARTITION BY conversation_id ORDER BY id) AS prev_id
+        FROM messages
+        WHERE conversation_id IS NOT NULL AND role <> 'summary'
+      ) AS ordered
+      WHERE messages.id = ordered.id AND ordered.prev_id IS NOT NULL
+    `);
+  });
+  console.log(`Linked ${result.rowCount ?? 0} messages stored before branching`);
+}
+
+(async () => {
+  try {
+    await clearDuplicateDefaultPrompts();
+    await linkUnbranchedMessages();
+    await clearDanglingMessageReferences();
+  } catch (error) {
+    console.error("Failed to prepare the database for the schema push:", error);
+    process.exitCode = 1;
+  } finally {
+    await pool.end();
+  }
+})();
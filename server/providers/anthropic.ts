@@ -0,0 +1,132 @@
+import Anthropic from "@anthropic-ai/sdk";
+import type {
+  ContentBlockParam,
+  Message,
+  MessageCreateParamsNonStreaming,
+  MessageParam,
+  Tool,
+} from "@anthropic-ai/sdk/resources/messages";
+import type {
+  ChatCompletionOptions,
+  ChatCompletionResult,
+  ChatMessage,
+  LLMProvider,
+  LLMProviderConfig,
+} from "./types";
+
+// Anthropic 要求指定最大输出长度
+const MAX_TOKENS = 4096;
+
+function parseToolArguments(args: string): unknown {
+  try {
+    return JSON.parse(args || "{}");
+  } catch {
+    return {};
+  }
+}
+
+// 转换为Anthropic消息格式：系统消息单独传递，工具结果作为用户消息中的 tool_result，
+// 相邻的同角色消息合并为一条
+function toAnthropicMessages(messages: ChatMessage[]): { system: string; messages: MessageParam[] } {
+  const system: string[] = [];
+  const result: MessageParam[] = [];
+
+  const append = (role: MessageParam["role"], blocks: ContentBlockParam[]) => {
+    if (blocks.length === 0) return;
+    const last = result[result.length - 1];
+    if (last && last.role === role) {
+      last.content = [...(last.content as ContentBlockParam[]), ...blocks];
+    } else {
+      result.push({ role, content: blocks });
+    }
+  };
+
+  for (const message of messages) {
+    switch (message.role) {
+      case "system":
+        system.push(message.content);
+        break;
+      case "user":
+        append("user", message.content ? [{ type: "text", text: message.content }] : []);
+        break;
+      case "assistant":
+        append("assistant", [
+          ...(message.content ? [{ type: "text" as const, text: message.content }] : []),
+          ...(message.tool_calls || []).map((toolCall) => ({
+            type: "tool_use" as const,
+            id: toolCall.id,
+            name: toolCall.function.name,
+            input: parseToolArguments(toolCall.function.arguments),
+          })),
+        ]);
+        break;
+      case "tool":
+        append("user", [
+          message.tool_call_id
+            ? { type: "tool_result", tool_use_id: message.tool_call_id, content: message.content }
+            : { type: "text", text: `Tool result: ${message.content}` },
+        ]);
+        break;
+    }
+  }
+
+  return { system: system.join("\n\n"), messages: result };
+}
+
+export class AnthropicProvider implements LLMProvider {
+  private client: Anthropic;
+
+  constructor(config: LLMProviderConfig) {
+    this.client = new Anthropic({
+      // 传 null 时 SDK 不会再去读取环境变量
+      apiKey: config.apiKey || null,
+      baseURL: config.baseUrl || undefined,
+    });
+  }
+
+  async complete(messages: ChatMessage[], options: ChatCompletionOptions): Promise<ChatCompletionResult> {
+    const { system, messages: anthropicMessages } = toAnthropicMessages(messages);
+    const request: MessageCreateParamsNonStreaming = {
+      model: options.model,
+      max_tokens: MAX_TOKENS,
+      messages: anthropicMessages,
+      temperature: options.temperature,
+      ...(system ? { system } : {}),
+      ...(options.tools?.length
+        ? {
+            tools: options.tools.map((tool) => ({
+              name: tool.name,
+              description: tool.description,
+              input_schema: tool.parameters as Tool.InputSchema,
+            })),
+            tool_choice: { type: options.toolChoice ?? "auto" },
+          }
+        : {}),
+    };
+
+    let response: Message;
+    if (options.onDelta) {
+      const stream = this.client.messages.stream(request, { signal: options.signal });
+      stream.on("text", options.onDelta);
+      response = await stream.finalMessage();
+    } else {
+      response = await this.client.messages.create(request, { signal: options.signal });
+    }
+
+    let content = "";
+    const toolCalls: ChatCompletionResult["toolCalls"] = [];
+    for (const block of response.content) {
+      if (block.type === "text") {
+        content += block.text;
+      } else if (block.type === "tool_use") {
+        toolCalls.push({
+          id: block.id,
+          type: "function",
+          function: { name: block.name, arguments: JSON.stringify(block.input) },
+        });
+      }
+    }
+
+    return { content, toolCalls };
+  }
+}
@@ -0,0 +1,30 @@
+import type { LlmProvider } from "@shared/schema";
+import { DEFAULT_LLM_PROVIDERS } from "../llmProviders";
+import { AnthropicProvider } from "./anthropic";
+import { MockProvider } from "./mock";
+import { OpenAICompatibleProvider } from "./openai";
+import type { LLMProvider } from "./types";
+
+export * from "./types";
+export { MockProvider } from "./mock";
+
+// 没有单独配置密钥时才使用环境变量中的密钥，而且只发给SDK的默认地址或预置提供商的地址
+function getApiKey(config: LlmProvider, envKey: string | undefined): string | null {
+  if (config.apiKey) return config.apiKey;
+  const isKnownUrl = !config.baseUrl || DEFAULT_LLM_PROVIDERS.some((provider) => provider.baseUrl === config.baseUrl);
+  return isKnownUrl ? envKey || null : null;
+}
+
+// 根据数据库中的提供商配置创建对应的实现
+export function createProvider(config: LlmProvider): LLMProvider {
+  switch (config.type) {
+    case "openai-compatible":
+      return new OpenAICompatibleProvider({ baseUrl: config.baseUrl, apiKey: getApiKey(config, process.env.OPENAI_API_KEY) });
+    case "anthropic":
+      return new AnthropicProvider({ baseUrl: config.baseUrl, apiKey: getApiKey(config, process.env.ANTHROPIC_API_KEY) });
+    case "mock":
+      return new MockProvider();
+    default:
+      throw new Error(`Unknown LLM provider type: ${config.type}`);
+  }
+}
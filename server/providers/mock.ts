@@ -0,0 +1,97 @@
+import fs from "fs";
+import path from "path";
+import type {
+  ChatCompletionOptions,
+  ChatCompletionResult,
+  ChatMessage,
+  LLMProvider,
+} from "./types";
+
+// 离线的模拟提供商：按最后一条用户消息匹配夹具文件，按顺序回放脚本化的回复（包括工具调用），
+// 不访问网络，相同的对话总是得到相同的结果
+
+const DEFAULT_FIXTURES_DIR = path.join(process.cwd(), "server/fixtures/mock-llm");
+
+// 流式输出时每段之间的延迟，便于离线测试停止生成
+const CHUNK_DELAY_MS = parseInt(process.env.MOCK_LLM_CHUNK_DELAY_MS || "", 10) || 0;
+
+// 夹具中的一步回复
+export interface MockResponse {
+  content?: string;
+  toolCalls?: { name: string; arguments?: Record<string, any> }[];
+}
+
+// 夹具文件的内容（单个对象或数组）
+export interface MockFixture {
+  // 最后一条用户消息包含该文本（不区分大小写）时匹配
+  match: string;
+  // 依次作为该用户消息之后第1、2、3…次请求的回复，用完后重复最后一步
+  responses: MockResponse[];
+}
+
+function loadFixtures(dir: string): MockFixture[] {
+  if (!fs.existsSync(dir)) return [];
+
+  return fs.readdirSync(dir)
+    .filter((file) => file.endsWith(".json"))
+    .sort()
+    .flatMap((file) => {
+      const content = JSON.parse(fs.readFileSync(path.join(dir, file), "utf-8"));
+      return Array.isArray(content) ? content : [content];
+    });
+}
+
+// 把文本切成固定长度的小段，用于模拟流式输出
+function splitIntoChunks(content: string): string[] {
+  return content.match(/[\s\S]{1,4}/g) || [];
+}
+
+export class MockProvider implements LLMProvider {
+  private fixturesDir: string;
+
+  constructor(fixturesDir = process.env.MOCK_LLM_FIXTURES || DEFAULT_FIXTURES_DIR) {
+    this.fixturesDir = fixturesDir;
+  }
+
+  async complete(messages: ChatMessage[], options: ChatCompletionOptions): Promise<ChatCompletionResult> {
+    options.signal?.throwIfAborted();
+    const lastUserIndex = messages.map((message) => message.role).lastIndexOf("user");
+    const userMessage = lastUserIndex >= 0 ? messages[lastUserIndex].content : "";
+
+    // 每次请求都重新读取夹具，方便开发时修改
+    const fixture = loadFixtures(this.fixturesDir).find((f) =>
+      userMessage.toLowerCase().includes(f.match.toLowerCase()));
+
+    // 用户消息之后已有几条助手回复，决定回放哪一步
+    const step = messages.slice(lastUserIndex + 1).filter((message) => message.role === "assistant").length;
+    const response: MockResponse = fixture?.responses.length
+      ? fixture.responses[Math.min(step, fixture.responses.length - 1)]
+      : { content: `[mock] ${userMessage}` };
+
+    // 没有提供工具或禁止调用工具时只返回文本
+    const canCallTools = !!options.tools?.length && options.toolChoice !== "none";
+    const toolCalls = canCallTools
+      ? (response.toolCalls || [])
+          .filter((call) => options.tools!.some((tool) => tool.name === call.name))
+          .map((call, i) => ({
+            // 以消息位置生成ID，同一对话中不会重复
+            id: `mock_${messages.length}_${i}`,
+            type: "function" as const,
+            function: { name: call.name, arguments: JSON.stringify(call.arguments || {}) },
+          }))
+      : [];
+
+    const content = response.content || "";
+    if (options.onDelta) {
+      for (const chunk of splitIntoChunks(content)) {
+        if (CHUNK_DELAY_MS) {
+          await new Promise((resolve) => setTimeout(resolve, CHUNK_DELAY_MS));
+        }
+        options.signal?.throwIfAborted();
+        options.onDelta(chunk);
+      }
+    }
+
+    return { content, toolCalls };
+  }
+}
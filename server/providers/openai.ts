@@ -0,0 +1,102 @@
+import OpenAI from "openai";
+import type {
+  ChatCompletionCreateParamsNonStreaming,
+  ChatCompletionMessageParam,
+} from "openai/resources/chat/completions";
+import type {
+  ChatCompletionOptions,
+  ChatCompletionResult,
+  ChatMessage,
+  ChatToolCall,
+  LLMProvider,
+  LLMProviderConfig,
+} from "./types";
+
+// 转换为OpenAI消息格式；没有 tool_call_id 的旧工具消息改为系统消息
+function toOpenAIMessages(messages: ChatMessage[]): ChatCompletionMessageParam[] {
+  return messages.map((message): ChatCompletionMessageParam => {
+    switch (message.role) {
+      case "tool":
+        return message.tool_call_id
+          ? { role: "tool", tool_call_id: message.tool_call_id, content: message.content }
+          : { role: "system", content: `Tool result: ${message.content}` };
+      case "assistant":
+        return message.tool_calls?.length
+          ? { role: "assistant", content: message.content || null, tool_calls: message.tool_calls }
+          : { role: "assistant", content: message.content };
+      default:
+        return { role: message.role, content: message.content };
+    }
+  });
+}
+
+// 任何兼容OpenAI聊天接口的服务（OpenAI、DeepSeek等）
+export class OpenAICompatibleProvider implements LLMProvider {
+  private client: OpenAI;
+
+  constructor(config: LLMProviderConfig) {
+    this.client = new OpenAI({
+      // 没有密钥时传空字符串，SDK 不会再去读取环境变量
+      apiKey: config.apiKey || "",
+      baseURL: config.baseUrl || undefined,
+    });
+  }
+
+  async complete(messages: ChatMessage[], options: ChatCompletionOptions): Promise<ChatCompletionResult> {
+    const request: ChatCompletionCreateParamsNonStreaming = {
+      model: options.model,
+      messages: toOpenAIMessages(messages),
+      temperature: options.temperature,
+      ...(options.tools?.length
+        ? {
+            tools: options.tools.map((tool) => ({
+              type: "function" as const,
+              function: {
+                name: tool.name,
+                description: tool.description,
+                parameters: tool.parameters,
+              },
+            })),
+            tool_choice: options.toolChoice ?? "auto",
+          }
+        : {}),
+    };
+
+    if (!options.onDelta) {
+      const response = await this.client.chat.completions.create(request, { signal: options.signal });
+      const message = response.choices[0].message;
+      return {
+        content: message.content || "",
+        toolCalls: (message.tool_calls || []).filter((toolCall) => toolCall.type === "function"),
+      };
+    }
+
+    // 流式响应：拼接文本，并按 index 把分片的工具调用拼接完整
+    const stream = await this.client.chat.completions.create({ ...request, stream: true }, { signal: options.signal });
+    let content = "";
+    const toolCalls: ChatToolCall[] = [];
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta;
+      if (!delta) continue;
+
+      if (delta.content) {
+        content += delta.content;
+        options.onDelta(delta.content);
+      }
+
+      for (const toolCallDelta of delta.tool_calls || []) {
+        const toolCall = (toolCalls[toolCallDelta.index] ||= {
+          id: "",
+          type: "function",
+          function: { name: "", arguments: "" },
+        });
+        if (toolCallDelta.id) toolCall.id = toolCallDelta.id;
+        if (toolCallDelta.function?.name) toolCall.function.name += toolCallDelta.function.name;
+        if (toolCallDelta.function?.arguments) toolCall.function.arguments += toolCallDelta.function.arguments;
+      }
+    }
+
+    return { content, toolCalls: toolCalls.filter(Boolean) };
+  }
+}
@@ -0,0 +1,50 @@
+// 各LLM提供商共用的消息和请求格式（沿用OpenAI聊天接口的结构）
+
+export interface ChatToolCall {
+  id: string;
+  type: "function";
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string;
+  tool_call_id?: string;
+  tool_calls?: ChatToolCall[];
+}
+
+// 提供给模型的工具定义，parameters 为JSON Schema
+export interface ChatToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, any>;
+}
+
+export interface ChatCompletionOptions {
+  model: string;
+  temperature?: number;
+  tools?: ChatToolDefinition[];
+  // "none" 时模型只能直接回答，不能再请求工具
+  toolChoice?: "auto" | "none";
+  // 提供时使用流式响应，每收到一段文本就回调一次
+  onDelta?: (content: string) => void;
+  // 中止请求；已经生成的部分只能通过 onDelta 得到
+  signal?: AbortSignal;
+}
+
+export interface ChatCompletionResult {
+  content: string;
+  toolCalls: ChatToolCall[];
+}
+
+export interface LLMProvider {
+  complete(messages: ChatMessage[], options: ChatCompletionOptions): Promise<ChatCompletionResult>;
+}
+
+export interface LLMProviderConfig {
+  baseUrl?: string | null;
+  apiKey?: string | null;
+}
@@ -0,0 +1,92 @@
+import type { IncomingMessage, Server } from "http";
+import { WebSocketServer, WebSocket } from "ws";
+import { REALTIME_PATH, type RealtimeEvent } from "@shared/schema";
+
+// 实时同步：通过 WebSocket 把数据变化推送给同一用户连接的所有客户端（其他标签页或设备）。
+// 客户端只接收事件，不通过这个连接发送请求
+
+// 读取升级请求的登录状态，返回用户ID；未登录时返回 null
+export type UpgradeAuthenticator = (req: IncomingMessage) => Promise<number | null>;
+
+// 每隔这么久 ping 一次，上次 ping 之后没有回应的连接视为已断开
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+// 用户ID -> 该用户的连接
+const connections = new Map<number, Set<WebSocket>>();
+
+// 推送给用户的所有连接；没有连接时什么也不做
+export function publishToUser(userId: number | null | undefined, event: RealtimeEvent) {
+  if (userId == null) return;
+  const sockets = connections.get(userId);
+  if (!sockets) return;
+
+  const data = JSON.stringify(event);
+  sockets.forEach((socket) => {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(data);
+    }
+  });
+}
+
+function addConnection(userId: number, socket: WebSocket) {
+  let sockets = connections.get(userId);
+  if (!sockets) {
+    sockets = new Set();
+    connections.set(userId, sockets);
+  }
+  sockets.add(socket);
+
+  socket.on("close", () => {
+    sockets!.delete(socket);
+    if (sockets!.size === 0 && connections.get(userId) === sockets) {
+      connections.delete(userId);
+    }
+  });
+  socket.on("error", (error) => {
+    console.error("Realtime connection error:", error);
+  });
+}
+
+export function setupRealtime(server: Server, authenticate: UpgradeAuthenticator) {
+  const wss = new WebSocketServer({ noServer: true });
+  // 上次心跳之后有回应的连接
+  const alive = new WeakSet<WebSocket>();
+
+  server.on("upgrade", async (req, socket, head) => {
+    // 其他路径的升级请求（如开发环境的 Vite HMR）交给各自的处理程序
+    if (new URL(req.url || "/", "http://localhost").pathname !== REALTIME_PATH) return;
+
+    let userId: number | null = null;
+    try {
+      userId = await authenticate(req);
+    } catch (error) {
+      console.error("Failed to authenticate realtime connection:", error);
+    }
+    if (userId === null) {
+      socket.write("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+
+    const authenticatedUserId = userId;
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      alive.add(ws);
+      ws.on("pong", () => alive.add(ws));
+      addConnection(authenticatedUserId, ws);
+    });
+  });
+
+  // 心跳：清理没有正常关闭的连接（如设备断网）
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((ws) => {
+      if (!alive.has(ws)) {
+        ws.terminate();
+        return;
+      }
+      alive.delete(ws);
+      ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref();
+  wss.on("close", () => clearInterval(heartbeat));
+}
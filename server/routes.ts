@@ -1,51 +1,103 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
+import { randomUUID } from "crypto";
 import { storage } from "./storage";
 import { 
   chatCompletionSchema, 
   systemPromptSchema,
   mcpToolSchema,
   mcpToolCallSchema,
+  mcpServerSchema,
+  llmProviderSchema,
+  llmModelSchema,
+  apiTokenSchema,
+  openAIChatCompletionSchema,
+  contextStrategies,
+  toolApprovalSchema,
+  toolRejectionSchema,
+  messageForkSchema,
+  messageRegenerateSchema,
+  searchQuerySchema,
+  pendingToolStatuses,
+  syncQuerySchema,
+  conversationExportQuerySchema,
+  conversationImportSchema,
   insertMessageSchema, 
-  type Message 
+  type Message,
+  type InsertMessage,
+  type McpTool,
+  type ToolCallRecord,
+  type ChatCompletionRequest,
+  type Conversation,
+  type OpenAIChatCompletionRequest,
+  type MessageForkRequest,
+  type MessageRegenerateRequest,
+  type McpServer
 } from "@shared/schema";
 import { ZodError } from "zod";
 import { fromZodError } from "zod-validation-error";
-import { generateChatCompletion, type ChatMessage } from "./openai";
-import { DEFAULT_SYSTEM_PROMPTS } from "./systemPrompts";
-import { mcpService } from "./mcp-client";
+import { generateChatCompletion, streamChatCompletion, resolveModel, type ChatMessage } from "./llm";
+import { buildSummaryRequest, countChatTokens, getContextBudget, splitIntoTurns } from "./context";
+import { scheduleConversationSummary } from "./conversationSummaries";
+import { autoTitleConversation, generateConversationTitle } from "./conversationTitles";
+import { findLeaf, getBranch, getSiblingIds } from "./messageTree";
+import { searchConversations } from "./search";
+import { getSyncChanges } from "./sync";
+import { exportConversation } from "./conversationExport";
+import { importConversations } from "./conversationImport";
+import { mcpService, toolFunctionName, type MCPToolLoopOptions, type MCPToolResult } from "./mcp-client";
+import { setupAuth, requireAuth, requireAdmin } from "./auth";
+import { setupRealtime } from "./realtime";
+import { bearerAuth, generateApiToken } from "./apiTokens";
 
-// Mock user ID for demo purposes
-const MOCK_USER_ID = 1;
+// Invalid chat request detected after body validation (unknown model, missing conversation)
+class ChatRequestError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+// Respond 404 when a record is missing and 403 when it belongs to another user;
+// returns the record only when the signed-in user owns it
+function ensureOwner<T extends { userId: number | null }>(
+  record: T | undefined,
+  req: Request,
+  res: Response,
+  notFoundMessage: string
+): T | undefined {
+  if (!record) {
+    res.status(404).json({ message: notFoundMessage });
+    return undefined;
+  }
+  if (record.userId !== req.user!.id) {
+    res.status(403).json({ message: "Forbidden" });
+    return undefined;
+  }
+  return record;
+}
+
+// Environment variables often hold API keys; clients only get their names
+function toPublicMcpServer({ env, ...server }: McpServer) {
+  return { ...server, envKeys: Object.keys(env) };
+}
 
 // Error handling middleware
 function handleError(error: any, res: Response) {
   if (error instanceof ZodError) {
     const validationError = fromZodError(error);
     res.status(400).json({ message: validationError.message });
+  } else if (error instanceof ChatRequestError) {
+    res.status(error.status).json({ message: error.message });
   } else {
     console.error("API error:", error);
     res.status(500).json({ message: "Internal server error" });
   }
 }
 
-// Initialize default system prompts for a user
-async function initializeSystemPrompts(userId: number) {
-  try {
-    // Check if user already has system prompts
-    const existingPrompts = await storage.getUserSystemPrompts(userId);
-    if (existingPrompts.length > 0) return;
-    
-    // Add default system prompts
-    for (const prompt of DEFAULT_SYSTEM_PROMPTS) {
-      await storage.createSystemPrompt({
-        ...prompt,
-        userId
-      });
-    }
-  } catch (error) {
-    console.error("Failed to initialize system prompts:", error);
-  }
+// 助手消息中存储的工具调用：新格式为 { calls: [...] }，旧消息只有单个调用且没有 id
+function getStoredToolCalls(message: Message): ToolCallRecord[] {
+  const toolCall = message.toolCall as { calls?: ToolCallRecord[] } | null;
+  return Array.isArray(toolCall?.calls) ? toolCall.calls : [];
 }
 
 // Format messages for OpenAI API
@@ -60,8 +112,65 @@ function formatMessagesForOpenAI(messages: Message[], systemPrompt?: string): Ch
     });
   }
   
+  // Only replay tool calls whose results were stored, otherwise the API rejects the history
+  const answeredToolCallIds = new Set(
+    messages
+      .filter(message => message.role === "tool" && !pendingToolStatuses.includes(message.status))
+      .map(message => (message.toolCall as ToolCallRecord | null)?.id)
+      .filter(Boolean)
+  );
+  
   // Add conversation messages
   for (const message of messages) {
+    // Summaries are injected separately by buildConversationContext
+    if (message.role === "summary") continue;
+    
+    if (message.role === "assistant") {
+      const toolCalls = getStoredToolCalls(message)
+        .filter(call => call.id && answeredToolCallIds.has(call.id));
+      
+      if (toolCalls.length > 0) {
+        formattedMessages.push({
+          role: "assistant",
+          content: message.content,
+          tool_calls: toolCalls.map(call => ({
+            id: call.id!,
+            type: "function",
+            function: {
+              // Replay under the function name the model saw for this server's tool
+              name: call.serverName ? toolFunctionName(call.serverName, call.name) : call.name,
+              arguments: JSON.stringify(call.parameters)
+            }
+          }))
+        });
+        continue;
+      }
+      
+      // Tool-call-only step whose results are missing carries nothing for the model
+      if (!message.content && getStoredToolCalls(message).length > 0) continue;
+    }
+    
+    if (message.role === "tool") {
+      // Calls still waiting for approval (or running after it) have no result yet
+      if (pendingToolStatuses.includes(message.status)) continue;
+      
+      const toolCall = message.toolCall as ToolCallRecord | null;
+      if (toolCall?.id) {
+        formattedMessages.push({
+          role: "tool",
+          tool_call_id: toolCall.id,
+          content: JSON.stringify(message.toolResult)
+        });
+      } else {
+        // Older tool messages have no tool_call_id to answer
+        formattedMessages.push({
+          role: "system",
+          content: `Tool result: ${message.content}`
+        });
+      }
+      continue;
+    }
+    
     formattedMessages.push({
       role: message.role as "system" | "user" | "assistant",
       content: message.content
@@ -71,35 +180,625 @@ function formatMessagesForOpenAI(messages: Message[], systemPrompt?: string): Ch
   return formattedMessages;
 }
 
-export async function registerRoutes(app: Express): Promise<Server> {
-  // Initialize demo user if needed
-  app.use(async (req: Request, res: Response, next: NextFunction) => {
-    try {
-      // Check if demo user exists
-      let user = await storage.getUser(MOCK_USER_ID);
-      if (!user) {
-        // Create demo user
-        user = await storage.createUser({
-          username: "demo_user",
-          password: "password123" // In a real app, this would be properly hashed
-        });
-        
-        // Initialize default system prompts
-        await initializeSystemPrompts(user.id);
+// 获取对话启用且已绑定到MCP服务器工具的工具
+async function getConversationEnabledTools(conversationId: number): Promise<McpTool[]> {
+  const conversation = await storage.getConversation(conversationId);
+  if (!conversation || !Array.isArray(conversation.enabledTools)) return [];
+  
+  const tools: McpTool[] = [];
+  for (const toolId of conversation.enabledTools) {
+    const tool = await storage.getMcpTool(toolId);
+    if (tool && tool.userId === conversation.userId && tool.isEnabled && tool.serverName && tool.toolName) {
+      tools.push(tool);
+    }
+  }
+  return tools;
+}
+
+// 获取本轮对话使用的系统提示：优先使用请求指定的，否则使用对话绑定的
+async function getSystemPromptContent(conversationId: number, systemPromptId?: number): Promise<string | undefined> {
+  const conversation = await storage.getConversation(conversationId);
+  const promptId = systemPromptId || conversation?.systemPromptId;
+  if (promptId) {
+    // 只使用对话所属用户的系统提示
+    const systemPrompt = await storage.getSystemPrompt(promptId);
+    return systemPrompt && systemPrompt.userId === conversation?.userId ? systemPrompt.content : undefined;
+  }
+  return undefined;
+}
+
+// 本轮发送给模型的历史范围，客户端据此提示哪些较早的消息没有发送
+interface ConversationContextInfo {
+  // 没有发送给模型的较早消息数量（已被摘要或丢弃）
+  omittedMessages: number;
+  // 第一条发送给模型的消息ID
+  firstMessageId: number | null;
+  // 较早的消息是否已并入摘要
+  summarized: boolean;
+}
+
+interface ConversationContext {
+  messages: ChatMessage[];
+  context: ConversationContextInfo;
+}
+
+// 按模型的上下文窗口组装历史：系统提示始终保留，从最新的轮次开始尽量多地保留，
+// 放不下的较早轮次按对话的策略丢弃或并入摘要消息
+async function buildConversationContext(
+  conversation: Conversation,
+  conversationMessages: Message[],
+  systemPromptContent?: string
+): Promise<ConversationContext> {
+  const llmModel = conversation.model
+    ? await storage.getLlmModelByName(conversation.model)
+    : await storage.getDefaultLlmModel();
+  const budget = getContextBudget(llmModel, conversation);
+
+  let summary = conversationMessages.filter(m => m.role === "summary").pop();
+  const isSummarized = (message: Message) => !!summary && message.id <= summary.summarizedUntil!;
+  const history = conversationMessages.filter(m => m.role !== "summary" && !isSummarized(m));
+
+  const buildPrefix = (): ChatMessage[] => [
+    ...(systemPromptContent ? [{ role: "system" as const, content: systemPromptContent }] : []),
+    ...(summary ? [{ role: "system" as const, content: `此前对话的摘要：\n${summary.content}` }] : [])
+  ];
+
+  // 最新的一轮（当前的用户消息）即使超出预算也要发送
+  const turns = splitIntoTurns(history);
+  let usedTokens = countChatTokens(buildPrefix());
+  let firstKeptTurn = turns.length;
+  while (firstKeptTurn > 0) {
+    const turnTokens = countChatTokens(formatMessagesForOpenAI(turns[firstKeptTurn - 1]));
+    if (firstKeptTurn < turns.length && usedTokens + turnTokens > budget) break;
+    usedTokens += turnTokens;
+    firstKeptTurn--;
+  }
+
+  const dropped = turns.slice(0, firstKeptTurn).flat();
+  const kept = turns.slice(firstKeptTurn).flat();
+
+  if (dropped.length > 0 && conversation.contextStrategy === "summarize") {
+    const lastDroppedId = dropped[dropped.length - 1].id;
+    try {
+      // 后台生成的滚动摘要属于当前分支且已覆盖被丢弃的消息时直接使用，不必再请求模型
+      const rollingSummary = await storage.getLatestConversationSummary(conversation.id);
+      const content = rollingSummary && rollingSummary.lastMessageId >= lastDroppedId
+          && conversationMessages.some(m => m.id === rollingSummary.lastMessageId)
+        ? rollingSummary.content
+        : await generateChatCompletion(
+            buildSummaryRequest(summary?.content, dropped),
+            { model: conversation.model, temperature: 0.3 }
+          );
+      summary = await storage.createSummaryMessage({
+        role: 'summary',
+        content,
+        userId: conversation.userId,
+        conversationId: conversation.id,
+        summarizedUntil: lastDroppedId
+      });
+    } catch (error) {
+      // 摘要失败时本轮只截断，下次再尝试
+      console.error("Error summarizing conversation history:", error);
+    }
+  }
+
+  const omitted = conversationMessages.filter(m => m.role !== "summary" && !kept.includes(m));
+  return {
+    messages: [...buildPrefix(), ...formatMessagesForOpenAI(kept)],
+    context: {
+      omittedMessages: omitted.length,
+      firstMessageId: kept[0]?.id ?? null,
+      summarized: omitted.length > 0 && omitted.every(isSummarized)
+    }
+  };
+}
+
+interface ToolTurnResult {
+  content: string;
+  toolCalls: MCPToolResult[];
+  awaitingApproval: boolean;
+  // 本轮被中止，最终回复只包含中止前生成的部分
+  interrupted?: boolean;
+  // 本轮存储的助手和工具消息ID
+  messageIds: number[];
+}
+
+// 本轮使用的模型、流式输出时的回调，以及中止本轮的信号
+type ChatTurnOptions = Pick<MCPToolLoopOptions, "model" | "onDelta" | "onToolCallStart" | "onToolCallEnd" | "signal">;
+
+// 客户端在响应完成前断开连接（关闭页面或取消请求）时中止本轮
+function abortOnClose(res: Response): AbortController {
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableEnded) controller.abort();
+  });
+  return controller;
+}
+
+// 正在生成回复的对话；停止接口通过它中止生成，原请求照常返回被中断的结果
+const activeGenerations = new Map<number, AbortController>();
+
+// 运行工具循环并按顺序存储每一步；需要批准时存储待批准的工具消息并暂停
+async function runToolTurn(
+  conversationId: number,
+  userId: number,
+  formattedMessages: ChatMessage[],
+  enabledTools: McpTool[],
+  options: ChatTurnOptions = {}
+): Promise<ToolTurnResult> {
+  // 确保MCP服务初始化
+  if (!mcpService.getAvailableTools().length) {
+    await mcpService.initialize();
+  }
+  
+  // 使用MCP客户端处理完整的对话历史（多轮工具调用）
+  const mcpResponse = await mcpService.processWithTools(formattedMessages, {
+    ...options,
+    allowedTools: enabledTools.map(t => ({ serverName: t.serverName!, toolName: t.toolName! }))
+  });
+  const messageIds: number[] = [];
+  
+  // 按顺序存储每一轮的助手消息及其工具结果
+  for (const step of mcpResponse.steps) {
+    const calls: ToolCallRecord[] = step.toolCalls.map(call => ({
+      id: call.id,
+      toolId: enabledTools.find(t => t.serverName === call.serverName && t.toolName === call.name)?.id,
+      name: call.name,
+      serverName: call.serverName,
+      parameters: call.arguments
+    }));
+    
+    const stepMessage = await storage.createMessage({
+      role: 'assistant',
+      content: step.content,
+      userId,
+      conversationId,
+      toolCall: { calls }
+    });
+    messageIds.push(stepMessage.id);
+    
+    for (let i = 0; i < calls.length; i++) {
+      const call = step.toolCalls[i];
+      const toolMessage = await storage.createMessage({
+        role: 'tool',
+        content: call.awaitingApproval
+          ? `工具 "${calls[i].name}" 等待批准`
+          : `工具 "${calls[i].name}" 返回: ${JSON.stringify(call.result)}`,
+        userId,
+        conversationId,
+        toolCall: calls[i],
+        toolResult: call.result,
+        status: call.awaitingApproval ? 'awaiting_approval' : null
+      });
+      messageIds.push(toolMessage.id);
+    }
+  }
+  
+  if (!mcpResponse.awaitingApproval) {
+    // 存储最终的助手回复；被中止时保存已生成的部分并标记
+    const finalMessage = await storage.createMessage({
+      role: 'assistant',
+      content: mcpResponse.content,
+      userId,
+      conversationId,
+      status: mcpResponse.interrupted ? 'interrupted' : null
+    });
+    messageIds.push(finalMessage.id);
+  }
+  
+  return {
+    content: mcpResponse.content,
+    toolCalls: mcpResponse.toolCalls,
+    awaitingApproval: mcpResponse.awaitingApproval,
+    interrupted: mcpResponse.interrupted,
+    messageIds
+  };
+}
+
+// 所有待批准的调用处理完后，从数据库中的历史继续被暂停的工具循环
+async function resumeToolTurn(
+  conversationId: number,
+  userId: number,
+  signal?: AbortSignal
+): Promise<ToolTurnResult & { context?: ConversationContextInfo }> {
+  const conversationMessages = await storage.getConversationMessages(conversationId);
+  if (conversationMessages.some(m => m.role === "tool" && pendingToolStatuses.includes(m.status))) {
+    return { content: "", toolCalls: [], awaitingApproval: true, messageIds: [] };
+  }
+  
+  const conversation = (await storage.getConversation(conversationId))!;
+  const systemPromptContent = await getSystemPromptContent(conversationId);
+  const { messages: formattedMessages, context } =
+    await buildConversationContext(conversation, conversationMessages, systemPromptContent);
+  const enabledTools = await getConversationEnabledTools(conversationId);
+  const turn = await runToolTurn(conversationId, userId, formattedMessages, enabledTools, { model: conversation.model, signal });
+  scheduleConversationSummary(conversationId);
+  return { ...turn, context };
+}
+
+// 修改待批准调用的参数，同时更新发起调用的助手消息，保证历史与实际执行一致
+async function updatePendingToolCallParameters(message: Message, parameters: Record<string, any>): Promise<Message> {
+  const call = message.toolCall as ToolCallRecord;
+  const conversationMessages = await storage.getConversationMessages(message.conversationId!);
+  const assistantMessage = conversationMessages.find(m =>
+    m.role === "assistant" && getStoredToolCalls(m).some(c => c.id === call.id));
+  
+  if (assistantMessage) {
+    await storage.updateMessage(assistantMessage.id, {
+      toolCall: {
+        calls: getStoredToolCalls(assistantMessage).map(c => c.id === call.id ? { ...c, parameters } : c)
       }
-      next();
+    });
+  }
+  
+  return storage.updateMessage(message.id, { toolCall: { ...call, parameters } });
+}
+
+interface PreparedChatTurn {
+  conversationId: number;
+  userId: number;
+  userMessage: Message;
+  formattedMessages: ChatMessage[];
+  enabledTools: McpTool[];
+  // llm_models.name；null 时使用默认模型
+  model: string | null;
+  // 历史由客户端提供时（/v1 接口）没有该信息
+  context?: ConversationContextInfo;
+  // 重发的消息已经有回复（或正在生成）时为已有的回复，不再生成
+  reply?: ToolTurnResult;
+}
+
+// 聊天请求的公共部分：确定对话、存储用户消息并组装发给模型的历史
+async function prepareChatTurn(request: ChatCompletionRequest, userId: number): Promise<PreparedChatTurn> {
+  const { message, conversationId, systemPromptId, useTool, model, clientId } = request;
+  
+  if (model && !(await storage.getLlmModelByName(model))) {
+    throw new ChatRequestError(`Unknown model: ${model}`);
+  }
+  
+  // 重发的消息（离线时排队或连接中断后重试）已经存储过，在原来的对话中继续
+  const resent = clientId ? await storage.getMessageByClientId(userId, clientId) : undefined;
+  if (resent?.conversationId) {
+    return prepareResentTurn(resent, request);
+  }
+  
+  // Handle conversation
+  let conversation: Conversation;
+  if (conversationId) {
+    // 请求指定了模型时记到对话上，之后的回复沿用该模型
+    const existing = await storage.getConversation(conversationId);
+    if (!existing) {
+      throw new ChatRequestError("Conversation not found", 404);
+    }
+    if (existing.userId !== userId) {
+      throw new ChatRequestError("Forbidden", 403);
+    }
+    conversation = model && model !== existing.model
+      ? await storage.updateConversationModel(conversationId, model)
+      : existing;
+  } else {
+    // Create a new conversation if one doesn't exist
+    const defaultPrompt = await storage.getDefaultSystemPrompt(userId);
+    conversation = await storage.createConversation({
+      title: message.substring(0, 50) + (message.length > 50 ? "..." : ""),
+      userId,
+      systemPromptId: defaultPrompt?.id,
+      enabledTools: [] as number[], // No tools by default
+      model: model || null
+    });
+  }
+  
+  // Store user message
+  const userMessage = await storage.createMessage({
+    role: 'user',
+    content: message,
+    userId,
+    conversationId: conversation.id,
+    clientId
+  });
+  
+  return buildChatTurn(conversation, userMessage, { systemPromptId, useTool });
+}
+
+// 重发的用户消息：之后已有消息或正在生成时返回已有的回复；
+// 之前没能生成回复（例如请求在生成前中断）时切换到这条消息所在的分支，为它生成回复
+async function prepareResentTurn(userMessage: Message, request: ChatCompletionRequest): Promise<PreparedChatTurn> {
+  let conversation = await storage.getConversation(userMessage.conversationId!);
+  if (!conversation) {
+    throw new ChatRequestError("Conversation not found", 404);
+  }
+  
+  const tree = await storage.getConversationMessageTree(conversation.id);
+  const branch = getBranch(tree, findLeaf(tree, userMessage.id));
+  const replies = branch.slice(branch.findIndex(message => message.id === userMessage.id) + 1);
+  
+  if (replies.length === 0 && !activeGenerations.has(conversation.id)) {
+    if (conversation.activeMessageId !== userMessage.id) {
+      conversation = await storage.setActiveMessage(conversation.id, userMessage.id);
+    }
+    return buildChatTurn(conversation, userMessage, request);
+  }
+  
+  const lastReply = replies[replies.length - 1];
+  return {
+    conversationId: conversation.id,
+    userId: userMessage.userId!,
+    userMessage,
+    formattedMessages: [],
+    enabledTools: [],
+    model: conversation.model,
+    reply: {
+      content: lastReply?.role === 'assistant' ? lastReply.content : "",
+      toolCalls: [],
+      awaitingApproval: replies.some(message => message.role === 'tool' && pendingToolStatuses.includes(message.status)),
+      interrupted: lastReply?.status === 'interrupted',
+      messageIds: replies.map(message => message.id)
+    }
+  };
+}
+
+// 用对话当前分支的历史组装本轮请求；userMessage 是本轮要回复的用户消息
+async function buildChatTurn(
+  conversation: Conversation,
+  userMessage: Message,
+  { systemPromptId, useTool }: Pick<ChatCompletionRequest, "systemPromptId" | "useTool">
+): Promise<PreparedChatTurn> {
+  // Get the messages on the active branch
+  const conversationMessages = await storage.getConversationMessages(conversation.id);
+  
+  // Get system prompt if one is specified or from the conversation
+  const systemPromptContent = await getSystemPromptContent(conversation.id, systemPromptId);
+  
+  // Fit the history into the model's context window
+  const { messages: formattedMessages, context } =
+    await buildConversationContext(conversation, conversationMessages, systemPromptContent);
+  
+  // Get enabled tools for this conversation if useTool is true
+  const enabledTools = useTool ? await getConversationEnabledTools(conversation.id) : [];
+  
+  return {
+    conversationId: conversation.id,
+    userId: userMessage.userId!,
+    userMessage,
+    formattedMessages,
+    enabledTools,
+    model: conversation.model,
+    context
+  };
+}
+
+// 生成本轮回复：启用了工具时运行工具循环，否则使用常规聊天完成
+async function generateChatTurn(
+  turn: PreparedChatTurn,
+  events: Omit<ChatTurnOptions, "model"> = {}
+): Promise<ToolTurnResult> {
+  const { conversationId, userId, formattedMessages, enabledTools, model } = turn;
+  if (turn.reply) return turn.reply;
+  
+  // 检查是否启用了MCP工具
+  if (enabledTools.length > 0) {
+    try {
+      const turn = await runToolTurn(conversationId, userId, formattedMessages, enabledTools, { ...events, model });
+      scheduleConversationSummary(conversationId);
+      return turn;
+    } catch (error) {
+      // 已被中止时不再回退
+      if (events.signal?.aborted) throw error;
+      // 如果MCP处理失败，回退到常规方式
+      console.error("Error processing with MCP tools:", error);
+    }
+  }
+  
+  // 如果没有启用工具或没有可用工具，使用常规聊天完成
+  const { signal } = events;
+  let partialResponse = "";
+  const onDelta = events.onDelta && ((content: string) => {
+    partialResponse += content;
+    events.onDelta!(content);
+  });
+  let finalResponse: string;
+  let interrupted = false;
+  try {
+    finalResponse = onDelta
+      ? await streamChatCompletion(formattedMessages, onDelta, { model, signal })
+      : await generateChatCompletion(formattedMessages, { model, signal });
+  } catch (error) {
+    if (!signal?.aborted) throw error;
+    // 保留中止前已经生成的部分
+    finalResponse = partialResponse;
+    interrupted = true;
+  }
+  const finalMessage = await storage.createMessage({
+    role: 'assistant',
+    content: finalResponse,
+    userId,
+    conversationId,
+    status: interrupted ? 'interrupted' : null
+  });
+  scheduleConversationSummary(conversationId);
+  
+  return {
+    content: finalResponse,
+    toolCalls: [],
+    awaitingApproval: false,
+    interrupted,
+    messageIds: [finalMessage.id]
+  };
+}
+
+// 以Server-Sent Events推送一轮对话：start、delta、tool_call_start、tool_call_end、done，
+// 之后可能还有 title；出错时发送 error。请求校验应在调用前完成。
+// 生成可以通过停止接口或断开连接中止，已生成的部分保存为被中断的回复
+async function streamChatTurn(res: Response, prepare: () => Promise<PreparedChatTurn>) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    "Connection": "keep-alive"
+  });
+  
+  const controller = abortOnClose(res);
+  const sendEvent = (event: string, data: unknown) => {
+    if (res.destroyed) return;
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+  
+  let conversationId: number | undefined;
+  try {
+    const prepared = await prepare();
+    conversationId = prepared.conversationId;
+    // 返回已有回复时不占用对话，原来的生成仍然可以停止
+    if (!prepared.reply) {
+      activeGenerations.set(conversationId, controller);
+    }
+    sendEvent("start", {
+      conversationId: prepared.conversationId,
+      userMessageId: prepared.userMessage.id,
+      context: prepared.context
+    });
+    
+    const turn = await generateChatTurn(prepared, {
+      onDelta: content => sendEvent("delta", { content }),
+      onToolCallStart: call => sendEvent("tool_call_start", call),
+      onToolCallEnd: call => sendEvent("tool_call_end", call),
+      signal: controller.signal
+    });
+    
+    sendEvent("done", {
+      ...turn,
+      conversationId: prepared.conversationId,
+      userMessageId: prepared.userMessage.id,
+      context: prepared.context,
+      availableTools: prepared.enabledTools.map(t => t.name)
+    });
+    
+    // 回复已经完成，标题生成好后再推送给客户端；客户端已断开时不再生成
+    const titled = turn.awaitingApproval || res.destroyed
+      ? undefined
+      : await autoTitleConversation(prepared.conversationId);
+    if (titled) {
+      sendEvent("title", { conversationId: titled.id, title: titled.title });
+    }
+  } catch (error) {
+    if (!res.destroyed) {
+      console.error("Streaming chat error:", error);
+      sendEvent("error", {
+        message: error instanceof Error ? error.message : "Internal server error"
+      });
+    }
+  } finally {
+    // 同一对话可能已经开始了新的生成
+    if (conversationId !== undefined && activeGenerations.get(conversationId) === controller) {
+      activeGenerations.delete(conversationId);
+    }
+  }
+  
+  res.end();
+}
+
+// OpenAI-style error body used by the /v1 endpoints
+function sendOpenAIError(res: Response, status: number, message: string, code?: string) {
+  res.status(status).json({
+    error: {
+      message,
+      type: status >= 500 ? "server_error" : "invalid_request_error",
+      code: code ?? null
+    }
+  });
+}
+
+// 把OpenAI格式的消息内容（字符串或文本片段数组）转换为纯文本
+function getOpenAIMessageText(content: OpenAIChatCompletionRequest["messages"][number]["content"]): string {
+  if (!content) return "";
+  if (typeof content === "string") return content;
+  return content.map(part => part.text || "").join("");
+}
+
+// 转换客户端发来的对话历史；客户端的工具调用不会在服务器上执行，工具消息只作为结果文本提供给模型
+function fromOpenAIMessages(messages: OpenAIChatCompletionRequest["messages"]): ChatMessage[] {
+  return messages.map(message => ({
+    role: message.role === "developer" ? "system" : message.role,
+    content: getOpenAIMessageText(message.content)
+  }));
+}
+
+export async function registerRoutes(app: Express): Promise<Server> {
+  // Login, registration and sessions; every other API route requires a signed-in user
+  // or a personal API token (Authorization: Bearer ...)
+  const authenticateUpgrade = setupAuth(app);
+  app.use("/api", bearerAuth, requireAuth);
+
+  // API tokens API endpoints
+  app.get("/api/tokens", async (req, res) => {
+    try {
+      const tokens = await storage.getUserApiTokens(req.user!.id);
+      res.json({ tokens: tokens.map(({ tokenHash, ...token }) => token) });
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  app.post("/api/tokens", async (req, res) => {
+    try {
+      const { name, scopes, expiresInDays } = apiTokenSchema.parse(req.body);
+      const { token, tokenHash, tokenPrefix } = generateApiToken();
+      
+      const created = await storage.createApiToken({
+        userId: req.user!.id,
+        name,
+        tokenHash,
+        tokenPrefix,
+        scopes,
+        expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null
+      });
+      
+      // The plaintext token is only returned here
+      const { tokenHash: _, ...apiToken } = created;
+      res.json({ token: apiToken, secret: token });
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  app.delete("/api/tokens/:id", async (req, res) => {
+    try {
+      const tokenId = parseInt(req.params.id, 10);
+      if (!ensureOwner(await storage.getApiToken(tokenId), req, res, "Token not found")) return;
+      
+      await storage.deleteApiToken(tokenId);
+      res.json({ success: true });
     } catch (error) {
-      console.error("Middleware error:", error);
-      next();
+      handleError(error, res);
     }
   });
 
   // Conversations API endpoints
   app.get("/api/conversations", async (req, res) => {
     try {
-      const userId = req.query.userId ? parseInt(req.query.userId as string, 10) : MOCK_USER_ID;
-      const conversations = await storage.getUserConversations(userId);
-      res.json({ conversations });
+      const userId = req.user!.id;
+      const [conversations, summaries] = await Promise.all([
+        storage.getUserConversations(userId),
+        storage.getUserConversationSummaries(userId)
+      ]);
+      // Latest rolling summary, shown as a preview in the conversation list
+      res.json({
+        conversations: conversations.map(conversation => ({
+          ...conversation,
+          summary: summaries.find(s => s.conversationId === conversation.id)?.content ?? null
+        }))
+      });
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  app.get("/api/conversations/:id/summary", async (req, res) => {
+    try {
+      const conversationId = parseInt(req.params.id, 10);
+      if (!ensureOwner(await storage.getConversation(conversationId), req, res, "Conversation not found")) return;
+      
+      // null until the conversation has enough messages to be summarized
+      const summary = await storage.getLatestConversationSummary(conversationId);
+      res.json({ summary: summary ?? null });
     } catch (error) {
       handleError(error, res);
     }
@@ -107,16 +806,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/conversations", async (req, res) => {
     try {
-      const userId = req.body.userId || MOCK_USER_ID;
+      const userId = req.user!.id;
       
       // Get default system prompt
       const systemPrompt = await storage.getDefaultSystemPrompt(userId);
       const systemPromptId = systemPrompt?.id;
       
-      // Create new conversation
+      // Create new conversation; untitled conversations are named by the model after the first reply
       const title = req.body.title || "New Conversation";
       const conversation = await storage.createConversation({
         title,
+        titleSource: req.body.title ? "user" : "default",
         userId,
         systemPromptId
       });
@@ -127,25 +827,110 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Import conversations from this app's JSON export or ChatGPT's conversations.json.
+  // Conversations imported before are skipped; dryRun only reports what would be created.
+  app.post("/api/conversations/import", async (req, res) => {
+    try {
+      const { data, dryRun = false } = conversationImportSchema.parse(req.body);
+      const conversations = await importConversations(req.user!.id, data, dryRun);
+      res.json({ dryRun, conversations });
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
   app.patch("/api/conversations/:id", async (req, res) => {
     try {
       const conversationId = parseInt(req.params.id, 10);
-      const { title } = req.body;
+      const { title, model, contextStrategy, contextTokens } = req.body;
+      
+      if (!ensureOwner(await storage.getConversation(conversationId), req, res, "Conversation not found")) return;
+      
+      if (!title && model === undefined && contextStrategy === undefined && contextTokens === undefined) {
+        return res.status(400).json({ message: "Title, model or context settings are required" });
+      }
+      
+      // null resets the conversation to the default model
+      if (model !== undefined && model !== null && !(await storage.getLlmModelByName(model))) {
+        return res.status(400).json({ message: `Unknown model: ${model}` });
+      }
+      
+      if (contextStrategy !== undefined && !contextStrategies.includes(contextStrategy)) {
+        return res.status(400).json({ message: `Unknown context strategy: ${contextStrategy}` });
+      }
+      
+      // null uses the model's full context window
+      if (contextTokens !== undefined && contextTokens !== null && !(Number.isInteger(contextTokens) && contextTokens > 0)) {
+        return res.status(400).json({ message: "contextTokens must be a positive integer or null" });
+      }
       
-      if (!title) {
-        return res.status(400).json({ message: "Title is required" });
+      let conversation = title
+        ? await storage.updateConversationTitle(conversationId, title)
+        : await storage.getConversation(conversationId);
+      if (model !== undefined) {
+        conversation = await storage.updateConversationModel(conversationId, model);
+      }
+      if (contextStrategy !== undefined || contextTokens !== undefined) {
+        conversation = await storage.updateConversationContext(conversationId, { contextStrategy, contextTokens });
       }
+      res.json({ conversation });
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  // Ask the model for a new title, replacing the current one even if the user renamed it
+  app.post("/api/conversations/:id/title", async (req, res) => {
+    try {
+      const conversationId = parseInt(req.params.id, 10);
+      if (!ensureOwner(await storage.getConversation(conversationId), req, res, "Conversation not found")) return;
       
-      const conversation = await storage.updateConversationTitle(conversationId, title);
+      const conversation = await generateConversationTitle(conversationId);
+      if (!conversation) {
+        return res.status(400).json({ message: "Conversation has no reply to generate a title from" });
+      }
       res.json({ conversation });
     } catch (error) {
       handleError(error, res);
     }
   });
 
+  // Download the conversation as Markdown, HTML or (re-importable) JSON
+  app.get("/api/conversations/:id/export", async (req, res) => {
+    try {
+      const { format } = conversationExportQuerySchema.parse(req.query);
+      const conversationId = parseInt(req.params.id, 10);
+      const conversation = ensureOwner(await storage.getConversation(conversationId), req, res, "Conversation not found");
+      if (!conversation) return;
+      
+      const file = await exportConversation(conversation, format);
+      res.attachment(file.filename);
+      res.type(file.contentType);
+      res.send(file.content);
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  // 停止对话中正在生成的回复
+  app.post("/api/conversations/:id/stop", async (req, res) => {
+    try {
+      const conversationId = parseInt(req.params.id, 10);
+      if (!ensureOwner(await storage.getConversation(conversationId), req, res, "Conversation not found")) return;
+      
+      const controller = activeGenerations.get(conversationId);
+      controller?.abort();
+      res.json({ stopped: !!controller });
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
   app.delete("/api/conversations/:id", async (req, res) => {
     try {
       const conversationId = parseInt(req.params.id, 10);
+      if (!ensureOwner(await storage.getConversation(conversationId), req, res, "Conversation not found")) return;
+      
       await storage.deleteConversation(conversationId);
       res.json({ success: true });
     } catch (error) {
@@ -156,8 +941,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // System prompts API endpoints
   app.get("/api/system-prompts", async (req, res) => {
     try {
-      const userId = req.query.userId ? parseInt(req.query.userId as string, 10) : MOCK_USER_ID;
-      const prompts = await storage.getUserSystemPrompts(userId);
+      const prompts = await storage.getUserSystemPrompts(req.user!.id);
       res.json({ prompts });
     } catch (error) {
       handleError(error, res);
@@ -167,12 +951,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/system-prompts", async (req, res) => {
     try {
       const { title, content, isDefault } = systemPromptSchema.parse(req.body);
-      const userId = req.body.userId || MOCK_USER_ID;
       
       const prompt = await storage.createSystemPrompt({
         title,
         content,
-        userId,
+        userId: req.user!.id,
         isDefault: isDefault || false
       });
       
@@ -187,6 +970,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const promptId = parseInt(req.params.id, 10);
       const { title, content, isDefault } = req.body;
       
+      if (!ensureOwner(await storage.getSystemPrompt(promptId), req, res, "System prompt not found")) return;
+      
       const updates: Record<string, any> = {};
       if (title) updates.title = title;
       if (content) updates.content = content;
@@ -202,6 +987,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete("/api/system-prompts/:id", async (req, res) => {
     try {
       const promptId = parseInt(req.params.id, 10);
+      if (!ensureOwner(await storage.getSystemPrompt(promptId), req, res, "System prompt not found")) return;
+      
       await storage.deleteSystemPrompt(promptId);
       res.json({ success: true });
     } catch (error) {
@@ -212,9 +999,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/system-prompts/:id/set-default", async (req, res) => {
     try {
       const promptId = parseInt(req.params.id, 10);
-      const userId = req.body.userId || MOCK_USER_ID;
+      if (!ensureOwner(await storage.getSystemPrompt(promptId), req, res, "System prompt not found")) return;
       
-      const prompt = await storage.setDefaultSystemPrompt(promptId, userId);
+      const prompt = await storage.setDefaultSystemPrompt(promptId, req.user!.id);
       res.json({ prompt });
     } catch (error) {
       handleError(error, res);
@@ -224,8 +1011,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // MCP Tools API endpoints
   app.get("/api/mcp-tools", async (req, res) => {
     try {
-      const userId = req.query.userId ? parseInt(req.query.userId as string, 10) : MOCK_USER_ID;
-      const tools = await storage.getUserMcpTools(userId);
+      const tools = await storage.getUserMcpTools(req.user!.id);
       res.json({ tools });
     } catch (error) {
       handleError(error, res);
@@ -234,8 +1020,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   app.get("/api/mcp-tools/enabled", async (req, res) => {
     try {
-      const userId = req.query.userId ? parseInt(req.query.userId as string, 10) : MOCK_USER_ID;
-      const tools = await storage.getEnabledMcpTools(userId);
+      const tools = await storage.getEnabledMcpTools(req.user!.id);
       res.json({ tools });
     } catch (error) {
       handleError(error, res);
@@ -244,15 +1029,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/mcp-tools", async (req, res) => {
     try {
-      const { name, description, icon, configuration, isEnabled } = mcpToolSchema.parse(req.body);
-      const userId = req.body.userId || MOCK_USER_ID;
+      const { name, description, icon, configuration, serverName, toolName, isEnabled } = mcpToolSchema.parse(req.body);
       
       const tool = await storage.createMcpTool({
         name,
         description,
         icon: icon || "tool",
         configuration,
-        userId,
+        serverName,
+        toolName,
+        userId: req.user!.id,
         isEnabled: isEnabled !== undefined ? isEnabled : true
       });
       
@@ -262,14 +1048,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // 所有已连接MCP服务器报告的工具，用于绑定 mcp_tools
+  app.get("/api/mcp-tools/available", async (req, res) => {
+    try {
+      res.json({ tools: mcpService.getAvailableTools() });
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
   app.get("/api/mcp-tools/:id", async (req, res) => {
     try {
       const toolId = parseInt(req.params.id, 10);
-      const tool = await storage.getMcpTool(toolId);
-      
-      if (!tool) {
-        return res.status(404).json({ message: "Tool not found" });
-      }
+      const tool = ensureOwner(await storage.getMcpTool(toolId), req, res, "Tool not found");
+      if (!tool) return;
       
       res.json({ tool });
     } catch (error) {
@@ -280,13 +1072,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.patch("/api/mcp-tools/:id", async (req, res) => {
     try {
       const toolId = parseInt(req.params.id, 10);
-      const { name, description, icon, configuration, isEnabled } = req.body;
+      const { name, description, icon, configuration, serverName, toolName, isEnabled } = req.body;
+      
+      if (!ensureOwner(await storage.getMcpTool(toolId), req, res, "Tool not found")) return;
       
       const updates: Record<string, any> = {};
       if (name) updates.name = name;
       if (description) updates.description = description;
       if (icon) updates.icon = icon;
       if (configuration) updates.configuration = configuration;
+      if (serverName) updates.serverName = serverName;
+      if (toolName) updates.toolName = toolName;
       if (isEnabled !== undefined) updates.isEnabled = isEnabled;
       
       const tool = await storage.updateMcpTool(toolId, updates);
@@ -299,6 +1095,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete("/api/mcp-tools/:id", async (req, res) => {
     try {
       const toolId = parseInt(req.params.id, 10);
+      if (!ensureOwner(await storage.getMcpTool(toolId), req, res, "Tool not found")) return;
+      
       await storage.deleteMcpTool(toolId);
       res.json({ success: true });
     } catch (error) {
@@ -315,6 +1113,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "isEnabled is required" });
       }
       
+      if (!ensureOwner(await storage.getMcpTool(toolId), req, res, "Tool not found")) return;
+      
       const tool = await storage.toggleMcpToolStatus(toolId, isEnabled);
       res.json({ tool });
     } catch (error) {
@@ -331,6 +1131,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "enabledTools must be an array of tool IDs" });
       }
       
+      if (!ensureOwner(await storage.getConversation(conversationId), req, res, "Conversation not found")) return;
+      
+      // 只能启用自己的工具
+      const userTools = await storage.getUserMcpTools(req.user!.id);
+      if (!enabledTools.every((id: unknown) => userTools.some(t => t.id === id))) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      
       const conversation = await storage.updateConversationTools(conversationId, enabledTools);
       res.json({ conversation });
     } catch (error) {
@@ -340,55 +1148,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   app.post("/api/mcp-tools/call", async (req, res) => {
     try {
-      const { toolId, conversationId, parameters, userId } = mcpToolCallSchema.parse(req.body);
-      const userIdToUse = userId || MOCK_USER_ID;
+      const { toolId, conversationId, parameters } = mcpToolCallSchema.parse(req.body);
+      const userId = req.user!.id;
+      
+      if (!ensureOwner(await storage.getConversation(conversationId), req, res, "Conversation not found")) return;
       
       // Get the tool
-      const tool = await storage.getMcpTool(toolId);
-      if (!tool) {
-        return res.status(404).json({ message: "Tool not found" });
-      }
+      const tool = ensureOwner(await storage.getMcpTool(toolId), req, res, "Tool not found");
+      if (!tool) return;
       
       // Check if the tool is enabled
       if (!tool.isEnabled) {
         return res.status(400).json({ message: "Tool is disabled" });
       }
       
+      // 只能调用对话中启用的工具
+      const enabledTools = await getConversationEnabledTools(conversationId);
+      if (!enabledTools.some(t => t.id === tool.id)) {
+        return res.status(400).json({ message: "Tool is not enabled for this conversation" });
+      }
+      
       try {
         // 初始化MCP服务（如果尚未初始化）
         if (!mcpService.getAvailableTools().length) {
           await mcpService.initialize();
         }
         
-        // 找到匹配的MCP工具
-        const availableTools = mcpService.getAvailableTools();
-        const mcpTool = availableTools.find(t => t.name.toLowerCase().includes(tool.name.toLowerCase()) || 
-                                             t.description.toLowerCase().includes(tool.description.toLowerCase()));
-        
-        let toolResult;
-        
-        if (mcpTool) {
-          // 使用MCP客户端调用工具
-          const result = await mcpService.processWithTools(`使用${tool.name}工具，参数：${JSON.stringify(parameters)}`);
-          toolResult = result.toolCalls.length > 0 ? result.toolCalls[0].result : null;
-        } else {
-          // 如果找不到匹配的MCP工具，返回模拟结果
-          toolResult = {
-            success: true,
-            data: {
-              message: `Tool "${tool.name}" executed successfully with parameters: ${JSON.stringify(parameters)}`,
-              timestamp: new Date().toISOString()
-            }
-          };
-        }
+        // 直接在绑定的MCP服务器上调用工具
+        const toolResult = await mcpService.callTool(tool.toolName!, parameters, tool.serverName!);
       
         // 存储工具调用作为消息
         await storage.createMessage({
           role: 'tool',
           content: `Tool "${tool.name}" was called`,
-          userId: userIdToUse,
+          userId,
           conversationId,
-          toolCall: { toolId, parameters },
+          toolCall: { toolId, name: tool.toolName!, parameters },
           toolResult
         });
         
@@ -406,9 +1201,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         await storage.createMessage({
           role: 'tool',
           content: `Tool "${tool.name}" call failed`,
-          userId: userIdToUse,
+          userId,
           conversationId,
-          toolCall: { toolId, parameters },
+          toolCall: { toolId, name: tool.toolName!, parameters },
           toolResult
         });
         
@@ -419,6 +1214,225 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // MCP Servers API endpoints
+  // The configured commands run on this host, so only admins may see or change them
+  app.use("/api/mcp-servers", requireAdmin);
+
+  app.get("/api/mcp-servers", async (req, res) => {
+    try {
+      const servers = await storage.getMcpServers();
+      res.json({
+        servers: servers.map(server => ({
+          ...toPublicMcpServer(server),
+          status: mcpService.getServerStatus(server.name)
+        }))
+      });
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  app.post("/api/mcp-servers", async (req, res) => {
+    try {
+      const data = mcpServerSchema.parse(req.body);
+      
+      if (await storage.getMcpServerByName(data.name)) {
+        return res.status(400).json({ message: "Server name already exists" });
+      }
+      
+      const server = await storage.createMcpServer(data);
+      
+      // 启动服务器并刷新工具目录
+      const status = await mcpService.restartServer(server);
+      res.json({ server: { ...toPublicMcpServer(server), status } });
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  app.patch("/api/mcp-servers/:id", async (req, res) => {
+    try {
+      const serverId = parseInt(req.params.id, 10);
+      const updates = mcpServerSchema.partial().parse(req.body);
+      
+      const existing = await storage.getMcpServer(serverId);
+      if (!existing) {
+        return res.status(404).json({ message: "Server not found" });
+      }
+      
+      if (updates.name && updates.name !== existing.name && await storage.getMcpServerByName(updates.name)) {
+        return res.status(400).json({ message: "Server name already exists" });
+      }
+      
+      const server = await storage.updateMcpServer(serverId, updates);
+      
+      // 重启服务器并刷新工具目录
+      const status = await mcpService.restartServer(server, existing.name);
+      res.json({ server: { ...toPublicMcpServer(server), status } });
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  app.delete("/api/mcp-servers/:id", async (req, res) => {
+    try {
+      const serverId = parseInt(req.params.id, 10);
+      const existing = await storage.getMcpServer(serverId);
+      if (!existing) {
+        return res.status(404).json({ message: "Server not found" });
+      }
+      
+      await storage.deleteMcpServer(serverId);
+      await mcpService.stopServer(existing.name);
+      res.json({ success: true });
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  app.post("/api/mcp-servers/:id/restart", async (req, res) => {
+    try {
+      const serverId = parseInt(req.params.id, 10);
+      const server = await storage.getMcpServer(serverId);
+      if (!server) {
+        return res.status(404).json({ message: "Server not found" });
+      }
+      
+      const status = await mcpService.restartServer(server);
+      res.json({ server: { ...toPublicMcpServer(server), status } });
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  // LLM providers API endpoints
+  // Providers and models are shared by every user; only admins may change them
+  app.get("/api/llm-providers", async (req, res) => {
+    try {
+      const providers = await storage.getLlmProviders();
+      // API密钥不返回给客户端
+      res.json({
+        providers: providers.map(({ apiKey, ...provider }) => ({
+          ...provider,
+          hasApiKey: !!apiKey
+        }))
+      });
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  app.post("/api/llm-providers", requireAdmin, async (req, res) => {
+    try {
+      const data = llmProviderSchema.parse(req.body);
+      const { apiKey, ...provider } = await storage.createLlmProvider(data);
+      res.json({ provider: { ...provider, hasApiKey: !!apiKey } });
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  app.patch("/api/llm-providers/:id", requireAdmin, async (req, res) => {
+    try {
+      const providerId = parseInt(req.params.id, 10);
+      const updates = llmProviderSchema.partial().parse(req.body);
+      
+      const existing = await storage.getLlmProvider(providerId);
+      if (!existing) {
+        return res.status(404).json({ message: "Provider not found" });
+      }
+      
+      // A stored key is never sent to a different address than the one it was entered for
+      if (updates.baseUrl !== undefined && updates.baseUrl !== existing.baseUrl && updates.apiKey === undefined) {
+        updates.apiKey = null;
+      }
+      
+      const { apiKey, ...provider } = await storage.updateLlmProvider(providerId, updates);
+      res.json({ provider: { ...provider, hasApiKey: !!apiKey } });
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  app.delete("/api/llm-providers/:id", requireAdmin, async (req, res) => {
+    try {
+      const providerId = parseInt(req.params.id, 10);
+      if (!(await storage.getLlmProvider(providerId))) {
+        return res.status(404).json({ message: "Provider not found" });
+      }
+      
+      await storage.deleteLlmProvider(providerId);
+      res.json({ success: true });
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  // LLM models API endpoints
+  app.get("/api/models", async (req, res) => {
+    try {
+      const models = await storage.getLlmModels();
+      res.json({ models });
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  app.post("/api/models", requireAdmin, async (req, res) => {
+    try {
+      const data = llmModelSchema.parse(req.body);
+      
+      if (!(await storage.getLlmProvider(data.providerId))) {
+        return res.status(400).json({ message: "Provider not found" });
+      }
+      if (await storage.getLlmModelByName(data.name)) {
+        return res.status(400).json({ message: "Model name already exists" });
+      }
+      
+      const model = await storage.createLlmModel(data);
+      res.json({ model });
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  app.patch("/api/models/:id", requireAdmin, async (req, res) => {
+    try {
+      const modelId = parseInt(req.params.id, 10);
+      const updates = llmModelSchema.partial().parse(req.body);
+      
+      const existing = await storage.getLlmModel(modelId);
+      if (!existing) {
+        return res.status(404).json({ message: "Model not found" });
+      }
+      if (updates.providerId && !(await storage.getLlmProvider(updates.providerId))) {
+        return res.status(400).json({ message: "Provider not found" });
+      }
+      if (updates.name && updates.name !== existing.name && await storage.getLlmModelByName(updates.name)) {
+        return res.status(400).json({ message: "Model name already exists" });
+      }
+      
+      const model = await storage.updateLlmModel(modelId, updates);
+      res.json({ model });
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  app.delete("/api/models/:id", requireAdmin, async (req, res) => {
+    try {
+      const modelId = parseInt(req.params.id, 10);
+      if (!(await storage.getLlmModel(modelId))) {
+        return res.status(404).json({ message: "Model not found" });
+      }
+      
+      await storage.deleteLlmModel(modelId);
+      res.json({ success: true });
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
   // Messages API endpoints
   app.get("/api/messages", async (req, res) => {
     try {
@@ -430,208 +1444,494 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Conversation ID is required" });
       }
       
-      const messages = await storage.getConversationMessages(conversationId);
-      res.json({ messages });
+      if (!ensureOwner(await storage.getConversation(conversationId), req, res, "Conversation not found")) return;
+      
+      // Messages on the active branch; siblingIds lists the alternative versions of each message
+      const [messages, tree] = await Promise.all([
+        storage.getConversationMessages(conversationId),
+        storage.getConversationMessageTree(conversationId)
+      ]);
+      res.json({
+        messages: messages.map(message => ({
+          ...message,
+          siblingIds: message.role === "summary" ? [message.id] : getSiblingIds(tree, message)
+        }))
+      });
     } catch (error) {
       handleError(error, res);
     }
   });
 
-  // Chat completion API endpoint
-  app.post("/api/chat", async (req, res) => {
+  // Search API endpoint: full-text search over the user's conversation titles and messages
+  // (all branches), with optional role, date range, system prompt and tool filters
+  app.get("/api/search", async (req, res) => {
     try {
-      // Validate request body
-      const { message, conversationId, systemPromptId, userId, useTool } = chatCompletionSchema.parse(req.body);
-      const userIdToUse = userId || MOCK_USER_ID;
-      
-      // Handle conversation
-      let conversationIdToUse = conversationId;
-      if (!conversationIdToUse) {
-        // Create a new conversation if one doesn't exist
-        const defaultPrompt = await storage.getDefaultSystemPrompt(userIdToUse);
-        const newConversation = await storage.createConversation({
-          title: message.substring(0, 50) + (message.length > 50 ? "..." : ""),
-          userId: userIdToUse,
-          systemPromptId: defaultPrompt?.id,
-          enabledTools: [] as number[] // No tools by default
-        });
-        conversationIdToUse = newConversation.id;
+      const query = searchQuerySchema.parse(req.query);
+      const results = await searchConversations(req.user!.id, query);
+      res.json({ results });
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  // Incremental sync for other devices and clients: everything changed since the cursor
+  app.get("/api/sync", async (req, res) => {
+    try {
+      const { since } = syncQuerySchema.parse(req.query);
+      res.json(await getSyncChanges(req.user!.id, since));
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  // Tool call approval API endpoints
+  async function getPendingToolMessage(req: Request, res: Response): Promise<Message | undefined> {
+    const messageId = parseInt(req.params.id, 10);
+    const message = await storage.getMessage(messageId);
+    
+    if (!message || message.role !== "tool" || !message.conversationId) {
+      res.status(404).json({ message: "Tool call not found" });
+      return undefined;
+    }
+    
+    if (!ensureOwner(await storage.getConversation(message.conversationId), req, res, "Tool call not found")) {
+      return undefined;
+    }
+    
+    if (message.status !== "awaiting_approval") {
+      res.status(400).json({ message: "Tool call is not awaiting approval" });
+      return undefined;
+    }
+    
+    return message;
+  }
+
+  app.patch("/api/messages/:id/tool-call", async (req, res) => {
+    try {
+      const { parameters } = toolApprovalSchema.parse(req.body);
+      if (!parameters) {
+        return res.status(400).json({ message: "parameters is required" });
       }
       
-      // Store user message
-      await storage.createMessage({
-        role: 'user',
-        content: message,
-        userId: userIdToUse,
-        conversationId: conversationIdToUse
-      });
+      const pending = await getPendingToolMessage(req, res);
+      if (!pending) return;
+      
+      const message = await updatePendingToolCallParameters(pending, parameters);
+      res.json({ message });
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  app.post("/api/messages/:id/approve", async (req, res) => {
+    try {
+      const { parameters } = toolApprovalSchema.parse(req.body);
       
-      // Get all messages in this conversation
-      const conversationMessages = await storage.getConversationMessages(conversationIdToUse);
+      const pending = await getPendingToolMessage(req, res);
+      if (!pending) return;
       
-      // Get system prompt if one is specified or from the conversation
-      let systemPromptContent: string | undefined;
-      if (systemPromptId) {
-        const systemPrompt = await storage.getSystemPrompt(systemPromptId);
-        systemPromptContent = systemPrompt?.content;
-      } else {
-        const conversation = await storage.getConversation(conversationIdToUse);
-        if (conversation?.systemPromptId) {
-          const systemPrompt = await storage.getSystemPrompt(conversation.systemPromptId);
-          systemPromptContent = systemPrompt?.content;
-        }
+      // 先占用这次调用：重复点击、其他标签页或同时拒绝时只有一个请求能处理它
+      let message = await storage.updateMessageIfStatus(pending.id, "awaiting_approval", { status: "running" });
+      if (!message) {
+        return res.status(409).json({ message: "Tool call was already handled" });
       }
       
-      // Get enabled tools for this conversation if useTool is true
-      let availableTools: string[] = [];
-      let toolsInfo: string = '';
-      
-      if (useTool) {
-        const conversation = await storage.getConversation(conversationIdToUse);
-        if (conversation && conversation.enabledTools && Array.isArray(conversation.enabledTools) && conversation.enabledTools.length > 0) {
-          const enabledToolIds = conversation.enabledTools as number[];
-          
-          // Get tool information to include in system prompt
-          const tools = [];
-          for (const toolId of enabledToolIds) {
-            const tool = await storage.getMcpTool(toolId);
-            if (tool && tool.isEnabled) {
-              tools.push({
-                id: tool.id,
-                name: tool.name,
-                description: tool.description,
-                configuration: tool.configuration
-              });
-            }
-          }
-          
-          if (tools.length > 0) {
-            availableTools = tools.map(t => t.name);
-            toolsInfo = `
-You have access to the following tools:
-${tools.map((tool, index) => `
-Tool ${index + 1}: ${tool.name}
-Description: ${tool.description}
-Usage: To use this tool, respond with: [USE_TOOL:${tool.id}:parameters]
-Where parameters is a valid JSON object with the parameters for the tool.
-`).join('\n')}
-
-When you want to use a tool, respond with the [USE_TOOL] syntax mentioned above.
-`;
-          }
+      const conversationId = message.conversationId!;
+      const userId = req.user!.id;
+      const signal = abortOnClose(res).signal;
+      
+      let call: ToolCallRecord;
+      let tool: McpTool | undefined;
+      let toolResult: InsertMessage["toolResult"];
+      try {
+        // 批准时可以同时修改参数
+        if (parameters) {
+          message = await updatePendingToolCallParameters(message, parameters);
         }
+        call = message.toolCall as ToolCallRecord;
+        
+        // 批准时工具仍须在对话中启用
+        const enabledTools = await getConversationEnabledTools(conversationId);
+        // 旧记录没有 serverName，按 toolId 查找
+        tool = enabledTools.find(t => call.serverName
+          ? t.serverName === call.serverName && t.toolName === call.name
+          : t.id === call.toolId);
+        toolResult = tool
+          ? await mcpService.callTool(call.name, call.parameters, tool.serverName!, signal)
+          : { error: `工具 "${call.name}" 未在当前对话中启用` };
+        signal.throwIfAborted();
+      } catch (error) {
+        // 调用失败或被中止时恢复待批准状态，之后可以再次批准
+        await storage.updateMessageIfStatus(message.id, "running", { status: "awaiting_approval" });
+        throw error;
       }
       
-      // Append tool information to system prompt if available
-      if (toolsInfo && systemPromptContent) {
-        systemPromptContent = `${systemPromptContent}\n\n${toolsInfo}`;
-      } else if (toolsInfo) {
-        systemPromptContent = toolsInfo;
-      }
+      await storage.updateMessage(message.id, {
+        content: `工具 "${call.name}" 返回: ${JSON.stringify(toolResult)}`,
+        toolResult,
+        status: tool ? "approved" : "rejected"
+      });
       
-      // Format messages for OpenAI
-      const formattedMessages = formatMessagesForOpenAI(conversationMessages, systemPromptContent);
+      // 继续被暂停的对话
+      const turn = await resumeToolTurn(conversationId, userId, signal);
+      const titled = turn.awaitingApproval ? undefined : await autoTitleConversation(conversationId);
+      res.json({ ...turn, conversationId, title: titled?.title });
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  app.post("/api/messages/:id/reject", async (req, res) => {
+    try {
+      const { reason } = toolRejectionSchema.parse(req.body);
       
-      let finalResponse = '';
-      let toolCalls: { name: string; arguments: Record<string, any>; result: any }[] = [];
+      const message = await getPendingToolMessage(req, res);
+      if (!message) return;
       
-      // 检查是否启用了MCP工具
-      if (useTool && availableTools.length > 0) {
-        try {
-          // 确保MCP服务初始化
-          if (!mcpService.getAvailableTools().length) {
-            await mcpService.initialize();
-          }
-          
-          // 使用MCP客户端处理消息
-          const mcpResponse = await mcpService.processWithTools(message);
-          finalResponse = mcpResponse.content;
-          toolCalls = mcpResponse.toolCalls;
-          
-          // 如果有工具调用，添加一个带有工具调用信息的消息
-          if (toolCalls.length > 0) {
-            // 找到工具ID
-            let toolId = undefined;
-            const conversation = await storage.getConversation(conversationIdToUse);
-            if (conversation && conversation.enabledTools && Array.isArray(conversation.enabledTools)) {
-              const enabledTools = await Promise.all((conversation.enabledTools as number[]).map(id => storage.getMcpTool(id)));
-              const matchingTool = enabledTools.find(tool => 
-                tool && toolCalls[0] && tool.name.toLowerCase().includes(toolCalls[0].name.toLowerCase()));
-              
-              if (matchingTool) {
-                toolId = matchingTool.id;
-              }
-            }
-            
-            // 存储助手消息，包含工具调用
-            await storage.createMessage({
-              role: 'assistant',
-              content: finalResponse,
-              userId: userIdToUse,
-              conversationId: conversationIdToUse,
-              toolCall: {
-                toolId,
-                name: toolCalls[0].name,
-                parameters: toolCalls[0].arguments
-              }
-            });
-            
-            // 存储工具结果消息
-            await storage.createMessage({
-              role: 'tool',
-              content: `工具 "${toolCalls[0].name}" 返回: ${JSON.stringify(toolCalls[0].result)}`,
-              userId: userIdToUse,
-              conversationId: conversationIdToUse,
-              toolCall: {
-                toolId,
-                name: toolCalls[0].name,
-                parameters: toolCalls[0].arguments
-              },
-              toolResult: toolCalls[0].result
-            });
-            
-            // 返回包含工具调用信息的响应
-            return res.json({
-              content: finalResponse,
-              conversationId: conversationIdToUse,
-              toolCall: {
-                toolId,
-                toolName: toolCalls[0].name,
-                parameters: toolCalls[0].arguments
-              },
-              toolResult: toolCalls[0].result
-            });
-          }
-        } catch (error) {
-          console.error("Error processing with MCP tools:", error);
-          // 如果MCP处理失败，回退到常规方式
-          finalResponse = await generateChatCompletion(formattedMessages);
-        }
-      } else {
-        // 如果没有启用工具或没有可用工具，使用常规聊天完成
-        finalResponse = await generateChatCompletion(formattedMessages);
+      const call = message.toolCall as ToolCallRecord;
+      const conversationId = message.conversationId!;
+      const userId = req.user!.id;
+      
+      // 拒绝结果同样回传给模型，让它在不使用该工具的情况下继续
+      const toolResult = {
+        error: "用户拒绝了此工具调用",
+        ...(reason ? { reason } : {})
+      };
+      
+      // 只有仍在等待批准时才能拒绝，已经开始执行的调用不会被改成拒绝
+      const rejected = await storage.updateMessageIfStatus(message.id, "awaiting_approval", {
+        content: `工具 "${call.name}" 已被拒绝`,
+        toolResult,
+        status: "rejected"
+      });
+      if (!rejected) {
+        return res.status(409).json({ message: "Tool call was already handled" });
       }
       
-      // 常规消息处理（无工具调用）
-      await storage.createMessage({
-        role: 'assistant',
-        content: finalResponse,
-        userId: userIdToUse,
-        conversationId: conversationIdToUse
+      const turn = await resumeToolTurn(conversationId, userId, abortOnClose(res).signal);
+      const titled = turn.awaitingApproval ? undefined : await autoTitleConversation(conversationId);
+      res.json({ ...turn, conversationId, title: titled?.title });
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  // Branching API endpoints
+  async function getOwnedMessage(
+    req: Request,
+    res: Response
+  ): Promise<{ message: Message; conversation: Conversation } | undefined> {
+    const message = await storage.getMessage(parseInt(req.params.id, 10));
+    if (!message || !message.conversationId) {
+      res.status(404).json({ message: "Message not found" });
+      return undefined;
+    }
+    
+    const conversation = ensureOwner(await storage.getConversation(message.conversationId), req, res, "Message not found");
+    return conversation ? { message, conversation } : undefined;
+  }
+
+  // Edit a user message: the edited version becomes a sibling branch and gets a new reply (SSE)
+  app.post("/api/messages/:id/fork", async (req, res) => {
+    let request: MessageForkRequest;
+    let owned: { message: Message; conversation: Conversation } | undefined;
+    try {
+      request = messageForkSchema.parse(req.body);
+      owned = await getOwnedMessage(req, res);
+      if (!owned) return;
+      if (owned.message.role !== "user") {
+        return res.status(400).json({ message: "Only user messages can be edited" });
+      }
+    } catch (error) {
+      return handleError(error, res);
+    }
+    
+    const { message: original, conversation } = owned;
+    await streamChatTurn(res, async () => {
+      const userMessage = await storage.createMessage({
+        role: 'user',
+        content: request.content,
+        userId: req.user!.id,
+        conversationId: conversation.id,
+        parentId: original.parentId
       });
+      return buildChatTurn(conversation, userMessage, request);
+    });
+  });
+
+  // Regenerate an assistant reply: the whole turn after its user message is generated again
+  // as a sibling branch (SSE)
+  app.post("/api/messages/:id/regenerate", async (req, res) => {
+    let request: MessageRegenerateRequest;
+    let owned: { message: Message; conversation: Conversation } | undefined;
+    let userMessage: Message | undefined;
+    try {
+      request = messageRegenerateSchema.parse(req.body);
+      owned = await getOwnedMessage(req, res);
+      if (!owned) return;
+      if (owned.message.role !== "assistant") {
+        return res.status(400).json({ message: "Only assistant replies can be regenerated" });
+      }
+      
+      const tree = await storage.getConversationMessageTree(owned.conversation.id);
+      userMessage = getBranch(tree, owned.message.id).reverse().find(m => m.role === "user");
+      if (!userMessage) {
+        return res.status(400).json({ message: "Reply has no user message to answer" });
+      }
+    } catch (error) {
+      return handleError(error, res);
+    }
+    
+    const { conversation } = owned;
+    const turnUserMessage = userMessage;
+    await streamChatTurn(res, async () => {
+      // The new reply continues from the user message, next to the old one
+      await storage.setActiveMessage(conversation.id, turnUserMessage.id);
+      return buildChatTurn(conversation, turnUserMessage, request);
+    });
+  });
+
+  // Switch to the branch containing this message, following the newest replies below it
+  app.post("/api/messages/:id/activate", async (req, res) => {
+    try {
+      const owned = await getOwnedMessage(req, res);
+      if (!owned) return;
+      
+      const tree = await storage.getConversationMessageTree(owned.conversation.id);
+      const conversation = await storage.setActiveMessage(owned.conversation.id, findLeaf(tree, owned.message.id));
+      res.json({ conversation });
+    } catch (error) {
+      handleError(error, res);
+    }
+  });
+
+  // Chat completion API endpoint
+  app.post("/api/chat", async (req, res) => {
+    const controller = abortOnClose(res);
+    let conversationId: number | undefined;
+    try {
+      // Validate request body
+      const request = chatCompletionSchema.parse(req.body);
+      
+      const prepared = await prepareChatTurn(request, req.user!.id);
+      conversationId = prepared.conversationId;
+      // 与流式接口一样登记本轮，停止接口可以中止它
+      if (!prepared.reply) {
+        activeGenerations.set(conversationId, controller);
+      }
+      const turn = await generateChatTurn(prepared, { signal: controller.signal });
+      const titled = turn.awaitingApproval ? undefined : await autoTitleConversation(prepared.conversationId);
 
       // 返回响应
       res.json({ 
-        content: finalResponse,
-        conversationId: conversationIdToUse,
-        availableTools
+        ...turn,
+        conversationId: prepared.conversationId,
+        title: titled?.title,
+        context: prepared.context,
+        availableTools: prepared.enabledTools.map(t => t.name)
       });
     } catch (error) {
       handleError(error, res);
+    } finally {
+      // 同一对话可能已经开始了新的生成
+      if (conversationId !== undefined && activeGenerations.get(conversationId) === controller) {
+        activeGenerations.delete(conversationId);
+      }
+    }
+  });
+
+  // Streaming chat completion over Server-Sent Events
+  app.post("/api/chat/stream", async (req, res) => {
+    let request: ChatCompletionRequest;
+    try {
+      request = chatCompletionSchema.parse(req.body);
+    } catch (error) {
+      return handleError(error, res);
+    }
+    
+    await streamChatTurn(res, () => prepareChatTurn(request, req.user!.id));
+  });
+
+  // OpenAI-compatible API endpoints (same authentication as /api)
+  app.use("/v1", bearerAuth, requireAuth);
+
+  app.get("/v1/models", async (req, res) => {
+    try {
+      const [models, providers] = await Promise.all([storage.getLlmModels(), storage.getLlmProviders()]);
+      res.json({
+        object: "list",
+        data: models.map(model => ({
+          id: model.name,
+          object: "model",
+          created: Math.floor(model.timestamp.getTime() / 1000),
+          owned_by: providers.find(p => p.id === model.providerId)?.name ?? "system"
+        }))
+      });
+    } catch (error) {
+      console.error("API error:", error);
+      sendOpenAIError(res, 500, "Internal server error");
+    }
+  });
+
+  app.post("/v1/chat/completions", async (req, res) => {
+    const parsed = openAIChatCompletionSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return sendOpenAIError(res, 400, fromZodError(parsed.error).message);
+    }
+    
+    const { model, messages, stream } = parsed.data;
+    const userId = req.user!.id;
+    const chatMessages = fromOpenAIMessages(messages);
+    const lastMessage = chatMessages[chatMessages.length - 1];
+    const signal = abortOnClose(res).signal;
+    
+    try {
+      try {
+        await resolveModel(model);
+      } catch {
+        return sendOpenAIError(res, 404, `The model \`${model}\` does not exist`, "model_not_found");
+      }
+      
+      // X-Conversation-Id: save this turn to the conversation; "new" creates one
+      const conversationHeader = req.header("x-conversation-id");
+      let conversation: Conversation | undefined;
+      if (conversationHeader) {
+        if (lastMessage.role !== "user") {
+          return sendOpenAIError(res, 400, "The last message must be a user message to save it to a conversation");
+        }
+        
+        if (conversationHeader === "new") {
+          const defaultPrompt = await storage.getDefaultSystemPrompt(userId);
+          conversation = await storage.createConversation({
+            title: lastMessage.content.substring(0, 50) + (lastMessage.content.length > 50 ? "..." : ""),
+            userId,
+            systemPromptId: defaultPrompt?.id,
+            enabledTools: [] as number[],
+            model
+          });
+        } else {
+          // 对话 id 是 PostgreSQL 的 integer
+          const conversationId = /^\d+$/.test(conversationHeader) ? Number(conversationHeader) : NaN;
+          if (!(conversationId <= 2147483647)) {
+            return sendOpenAIError(res, 400, 'X-Conversation-Id must be a conversation id or "new"');
+          }
+          conversation = await storage.getConversation(conversationId);
+          if (!conversation) {
+            return sendOpenAIError(res, 404, "Conversation not found");
+          }
+          if (conversation.userId !== userId) {
+            return sendOpenAIError(res, 403, "Forbidden");
+          }
+        }
+        res.setHeader("X-Conversation-Id", String(conversation.id));
+      }
+      
+      // 请求中没有系统消息时使用对话的系统提示，没有对话时使用用户的默认提示
+      if (!chatMessages.some(m => m.role === "system")) {
+        const systemPromptContent = conversation
+          ? await getSystemPromptContent(conversation.id)
+          : (await storage.getDefaultSystemPrompt(userId))?.content;
+        if (systemPromptContent) {
+          chatMessages.unshift({ role: "system", content: systemPromptContent });
+        }
+      }
+      
+      // 这里无法暂停等待用户批准，只提供自动批准的工具
+      const enabledTools = (conversation
+        ? await getConversationEnabledTools(conversation.id)
+        : (await storage.getEnabledMcpTools(userId)).filter(t => t.serverName && t.toolName)
+      ).filter(t => !mcpService.requiresApproval(t.serverName!, t.toolName!));
+      
+      const id = `chatcmpl-${randomUUID()}`;
+      const created = Math.floor(Date.now() / 1000);
+      const sendChunk = (delta: Record<string, string>, finishReason: string | null = null) => {
+        res.write(`data: ${JSON.stringify({
+          id,
+          object: "chat.completion.chunk",
+          created,
+          model,
+          choices: [{ index: 0, delta, finish_reason: finishReason }]
+        })}\n\n`);
+      };
+      
+      if (stream) {
+        res.writeHead(200, {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+          "Connection": "keep-alive"
+        });
+        sendChunk({ role: "assistant", content: "" });
+      }
+      const onDelta = stream ? (content: string) => sendChunk({ content }) : undefined;
+      
+      let content: string;
+      if (conversation) {
+        // 保存用户消息，回复和工具调用由 generateChatTurn 保存
+        const userMessage = await storage.createMessage({
+          role: 'user',
+          content: lastMessage.content,
+          userId,
+          conversationId: conversation.id
+        });
+        const turn = await generateChatTurn({
+          conversationId: conversation.id,
+          userId,
+          userMessage,
+          formattedMessages: chatMessages,
+          enabledTools,
+          model
+        }, { onDelta, signal });
+        content = turn.content;
+        // 不等待标题生成，客户端刷新对话列表时即可看到
+        if (!turn.awaitingApproval) void autoTitleConversation(conversation.id);
+      } else if (enabledTools.length > 0) {
+        const result = await mcpService.processWithTools(chatMessages, {
+          model,
+          onDelta,
+          signal,
+          allowedTools: enabledTools.map(t => ({ serverName: t.serverName!, toolName: t.toolName! }))
+        });
+        content = result.content;
+      } else {
+        content = onDelta
+          ? await streamChatCompletion(chatMessages, onDelta, { model, signal })
+          : await generateChatCompletion(chatMessages, { model, signal });
+      }
+      // 客户端已断开，无需响应
+      if (signal.aborted) return;
+      
+      if (stream) {
+        sendChunk({}, "stop");
+        res.write("data: [DONE]\n\n");
+        res.end();
+      } else {
+        res.json({
+          id,
+          object: "chat.completion",
+          created,
+          model,
+          choices: [{
+            index: 0,
+            message: { role: "assistant", content },
+            finish_reason: "stop"
+          }]
+        });
+      }
+    } catch (error) {
+      if (signal.aborted) return;
+      console.error("OpenAI-compatible API error:", error);
+      if (res.headersSent) {
+        res.write(`data: ${JSON.stringify({ error: { message: "Internal server error", type: "server_error" } })}\n\n`);
+        res.end();
+      } else {
+        sendOpenAIError(res, 500, "Internal server error");
+      }
     }
   });
 
   const httpServer = createServer(app);
+  // Pushes changes to every tab and device the user has open
+  setupRealtime(httpServer, authenticateUpgrade);
 
   return httpServer;
 }
@@ -0,0 +1,81 @@
+import type { SearchQuery, SearchResult } from "@shared/schema";
+import { storage } from "./storage";
+
+// 全文搜索：匹配由数据库的全文索引完成，这里负责截取片段并标出命中的词
+
+// 片段在第一个命中位置前后保留的字符数
+const SNIPPET_RADIUS = 60;
+
+// 查询中需要高亮的词：去掉引号、排除项（-词）和 or
+function getSearchTerms(q: string): string[] {
+  return q
+    .split(/\s+/)
+    .filter((term) => term && !term.startsWith("-") && term.toLowerCase() !== "or")
+    .map((term) => term.replace(/^"+|"+$/g, ""))
+    .filter(Boolean);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+const WORD_PATTERN = new RegExp("^[\\p{Script=Latin}\\p{N}_]+$", "u");
+
+// 字母或数字组成的词只匹配完整的词，与全文索引的分词一致；其他（如中文）按子串匹配
+function buildTermPattern(terms: string[]): RegExp | null {
+  if (terms.length === 0) return null;
+  const alternatives = terms.map((term) =>
+    WORD_PATTERN.test(term)
+      ? `(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`
+      : escapeRegExp(term)
+  );
+  return new RegExp(alternatives.join("|"), "giu");
+}
+
+function findHighlights(text: string, pattern: RegExp | null): [number, number][] {
+  if (!pattern) return [];
+  return Array.from(text.matchAll(pattern), (match): [number, number] =>
+    [match.index!, match.index! + match[0].length]);
+}
+
+// 截取第一个命中位置附近的文本；没有命中（例如全文索引匹配到词的其他形式）时取开头
+function buildSnippet(text: string, pattern: RegExp | null): Pick<SearchResult, "snippet" | "highlights"> {
+  const normalized = text.replace(/\s+/g, " ").trim();
+  const first = findHighlights(normalized, pattern)[0];
+  const start = first ? Math.max(0, first[0] - SNIPPET_RADIUS) : 0;
+  const end = Math.min(normalized.length, (first ? first[1] : 0) + SNIPPET_RADIUS * 2);
+
+  const snippet = (start > 0 ? "…" : "") + normalized.slice(start, end) + (end < normalized.length ? "…" : "");
+  return { snippet, highlights: findHighlights(snippet, pattern) };
+}
+
+// 搜索用户的对话标题和消息；标题命中排在前面，消息按相关度排序。
+// 指定角色时只搜索消息
+export async function searchConversations(userId: number, query: SearchQuery): Promise<SearchResult[]> {
+  const pattern = buildTermPattern(getSearchTerms(query.q));
+  const [titleMatches, messageMatches] = await Promise.all([
+    query.role ? [] : storage.searchConversationTitles(userId, query),
+    storage.searchMessages(userId, query),
+  ]);
+
+  const titleResults = titleMatches.map((conversation): SearchResult => ({
+    conversationId: conversation.id,
+    conversationTitle: conversation.title,
+    messageId: null,
+    role: null,
+    snippet: conversation.title,
+    highlights: findHighlights(conversation.title, pattern),
+    timestamp: conversation.timestamp,
+  }));
+
+  const messageResults = messageMatches.map(({ message, conversation }): SearchResult => ({
+    conversationId: conversation.id,
+    conversationTitle: conversation.title,
+    messageId: message.id,
+    role: message.role,
+    ...buildSnippet(message.content, pattern),
+    timestamp: message.timestamp,
+  }));
+
+  return [...titleResults, ...messageResults].slice(0, query.limit);
+}
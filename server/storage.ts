@@ -1,30 +1,95 @@
 import { 
   users, type User, type InsertUser,
   messages, type Message, type InsertMessage,
+  conversationSummaries, type ConversationSummary, type InsertConversationSummary,
   conversations, type Conversation, type InsertConversation,
   systemPrompts, type SystemPrompt, type InsertSystemPrompt,
-  mcpTools, type McpTool, type InsertMcpTool
+  mcpTools, type McpTool, type InsertMcpTool,
+  mcpServers, type McpServer, type InsertMcpServer,
+  llmProviders, type LlmProvider, type InsertLlmProvider,
+  llmModels, type LlmModel, type InsertLlmModel,
+  apiTokens, type ApiToken, type InsertApiToken,
+  syncTombstones, type SyncTombstone, type SyncEntityType,
+  type ConversationTitleSource, type SearchQuery
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, isNull } from "drizzle-orm";
+import { eq, ne, desc, and, or, isNull, isNotNull, gt, gte, lte, ilike, sql, type Column, type SQL } from "drizzle-orm";
+import { getBranch } from "./messageTree";
+import { publishToUser } from "./realtime";
+
+// Handle passed to db.transaction callbacks; multi-statement writes run inside one
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// A conversation read from an export file. Messages refer to each other by their position
+// in the list, and a parent always comes before its children.
+export interface ImportedConversation {
+  conversation: Omit<typeof conversations.$inferInsert, "id" | "activeMessageId"> & {
+    userId: number;
+    importKey: string;
+  };
+  messages: (Pick<InsertMessage, "role" | "content" | "toolCall" | "toolResult" | "status"> & {
+    parentIndex: number | null;
+    summarizedUntilIndex: number | null;
+    timestamp: Date;
+  })[];
+  summaries: { content: string; lastMessageIndex: number; timestamp: Date }[];
+  // Last message of the active branch; null uses the last message that is not a summary
+  activeMessageIndex: number | null;
+}
+
+// Rows of one user changed after a point in time, oldest change first
+export interface SyncChanges {
+  conversations: Conversation[];
+  messages: Message[];
+  systemPrompts: SystemPrompt[];
+  mcpTools: McpTool[];
+  tombstones: SyncTombstone[];
+}
 
 export interface IStorage {
   // User methods
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  promoteFirstUserToAdmin(): Promise<User | undefined>;
   
   // Conversation methods
   getConversation(id: number): Promise<Conversation | undefined>;
   getUserConversations(userId: number): Promise<Conversation[]>;
   createConversation(conversation: InsertConversation): Promise<Conversation>;
-  updateConversationTitle(id: number, title: string): Promise<Conversation>;
+  updateConversationTitle(id: number, title: string, titleSource?: ConversationTitleSource): Promise<Conversation>;
   updateConversationTools(id: number, enabledTools: number[]): Promise<Conversation>;
+  updateConversationModel(id: number, model: string | null): Promise<Conversation>;
+  updateConversationContext(id: number, settings: Pick<InsertConversation, "contextStrategy" | "contextTokens">): Promise<Conversation>;
   deleteConversation(id: number): Promise<void>;
+  getConversationByImportKey(userId: number, importKey: string): Promise<Conversation | undefined>;
+  importConversation(imported: ImportedConversation): Promise<Conversation>;
   
   // Message methods
   getConversationMessages(conversationId: number): Promise<Message[]>;
+  getConversationMessageTree(conversationId: number): Promise<Message[]>;
+  getSummaryMessages(conversationId: number): Promise<Message[]>;
+  getMessage(id: number): Promise<Message | undefined>;
+  getMessageByClientId(userId: number, clientId: string): Promise<Message | undefined>;
   createMessage(message: InsertMessage): Promise<Message>;
+  createSummaryMessage(message: InsertMessage): Promise<Message>;
+  updateMessage(id: number, message: Partial<InsertMessage>): Promise<Message>;
+  updateMessageIfStatus(id: number, status: string, message: Partial<InsertMessage>): Promise<Message | undefined>;
+  setActiveMessage(conversationId: number, messageId: number): Promise<Conversation>;
+  detachSummaryMessages(): Promise<void>;
+  
+  // Conversation summary methods
+  getLatestConversationSummary(conversationId: number): Promise<ConversationSummary | undefined>;
+  getConversationSummaries(conversationId: number): Promise<ConversationSummary[]>;
+  getUserConversationSummaries(userId: number): Promise<ConversationSummary[]>;
+  createConversationSummary(summary: InsertConversationSummary): Promise<ConversationSummary>;
+  
+  // Search methods
+  searchMessages(userId: number, query: SearchQuery): Promise<{ message: Message; conversation: Conversation }[]>;
+  searchConversationTitles(userId: number, query: SearchQuery): Promise<Conversation[]>;
+  
+  // Sync methods
+  getSyncChanges(userId: number, since: Date | null): Promise<SyncChanges>;
   
   // System prompt methods
   getSystemPrompt(id: number): Promise<SystemPrompt | undefined>;
@@ -43,6 +108,68 @@ export interface IStorage {
   updateMcpTool(id: number, tool: Partial<InsertMcpTool>): Promise<McpTool>;
   deleteMcpTool(id: number): Promise<void>;
   toggleMcpToolStatus(id: number, isEnabled: boolean): Promise<McpTool>;
+  
+  // MCP Server methods
+  getMcpServer(id: number): Promise<McpServer | undefined>;
+  getMcpServerByName(name: string): Promise<McpServer | undefined>;
+  getMcpServers(): Promise<McpServer[]>;
+  hasCreatedMcpServers(): Promise<boolean>;
+  createMcpServer(server: InsertMcpServer): Promise<McpServer>;
+  updateMcpServer(id: number, server: Partial<InsertMcpServer>): Promise<McpServer>;
+  deleteMcpServer(id: number): Promise<void>;
+  
+  // LLM provider methods
+  getLlmProvider(id: number): Promise<LlmProvider | undefined>;
+  getLlmProviders(): Promise<LlmProvider[]>;
+  createLlmProvider(provider: InsertLlmProvider): Promise<LlmProvider>;
+  updateLlmProvider(id: number, provider: Partial<InsertLlmProvider>): Promise<LlmProvider>;
+  deleteLlmProvider(id: number): Promise<void>;
+  
+  // LLM model methods
+  getLlmModel(id: number): Promise<LlmModel | undefined>;
+  getLlmModelByName(name: string): Promise<LlmModel | undefined>;
+  getLlmModels(): Promise<LlmModel[]>;
+  getDefaultLlmModel(): Promise<LlmModel | undefined>;
+  createLlmModel(model: InsertLlmModel): Promise<LlmModel>;
+  updateLlmModel(id: number, model: Partial<InsertLlmModel>): Promise<LlmModel>;
+  deleteLlmModel(id: number): Promise<void>;
+  
+  // API token methods
+  getApiToken(id: number): Promise<ApiToken | undefined>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  getUserApiTokens(userId: number): Promise<ApiToken[]>;
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  touchApiToken(id: number): Promise<void>;
+  deleteApiToken(id: number): Promise<void>;
+}
+
+const CJK_PATTERN = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af\uf900-\ufaff]/;
+
+// Full-text match, plus a substring match for CJK queries that the 'simple' parser cannot split
+function textMatch(vector: SQL, tsQuery: SQL, column: typeof messages.content | typeof conversations.title, q: string): SQL {
+  const fullText = sql`${vector} @@ ${tsQuery}`;
+  if (!CJK_PATTERN.test(q)) return fullText;
+  // Every term must appear
+  const substrings = q.split(/\s+/).filter(Boolean).map((term) =>
+    ilike(column, `%${term.replace(/[\\%_]/g, (c) => `\\${c}`)}%`));
+  return or(fullText, and(...substrings))!;
+}
+
+// Conversation-level filters shared by message and title search
+function searchFilters(query: SearchQuery): SQL[] {
+  const filters: SQL[] = [];
+  if (query.systemPromptId !== undefined) {
+    filters.push(eq(conversations.systemPromptId, query.systemPromptId));
+  }
+  if (query.tool) {
+    filters.push(sql`exists (
+      select 1 from ${messages} as tool_messages
+      where tool_messages.conversation_id = ${conversations.id}
+        and tool_messages.role = 'tool'
+        and tool_messages.tool_call->>'name' = ${query.tool}
+    )`);
+  }
+  return filters;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -65,6 +192,20 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  // Make the earliest account an admin while no admin exists (a new install, or users
+  // created before admins existed). Returns the promoted user, if any.
+  async promoteFirstUserToAdmin(): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ isAdmin: true })
+      .where(and(
+        sql`NOT EXISTS (SELECT 1 FROM ${users} WHERE ${users.isAdmin})`,
+        eq(users.id, sql`(SELECT min(${users.id}) FROM ${users})`)
+      ))
+      .returning();
+    return user || undefined;
+  }
+
   // Conversation methods
   async getConversation(id: number): Promise<Conversation | undefined> {
     const [conversation] = await db
@@ -100,53 +241,417 @@ export class DatabaseStorage implements IStorage {
     return newConversation;
   }
 
-  async updateConversationTitle(id: number, title: string): Promise<Conversation> {
+  async updateConversationTitle(id: number, title: string, titleSource: ConversationTitleSource = "user"): Promise<Conversation> {
     const [updatedConversation] = await db
       .update(conversations)
-      .set({ title })
+      .set({ title, titleSource, updatedAt: sql`now()` })
       .where(eq(conversations.id, id))
       .returning();
+    if (updatedConversation) {
+      publishToUser(updatedConversation.userId, { type: "conversation-renamed", conversation: updatedConversation });
+    }
     return updatedConversation;
   }
   
   async updateConversationTools(id: number, enabledTools: number[]): Promise<Conversation> {
     const [updatedConversation] = await db
       .update(conversations)
-      .set({ enabledTools })
+      .set({ enabledTools, updatedAt: sql`now()` })
       .where(eq(conversations.id, id))
       .returning();
+    if (updatedConversation) {
+      publishToUser(updatedConversation.userId, { type: "tools-changed", conversation: updatedConversation });
+    }
     return updatedConversation;
   }
 
+  async updateConversationModel(id: number, model: string | null): Promise<Conversation> {
+    const [updatedConversation] = await db
+      .update(conversations)
+      .set({ model, updatedAt: sql`now()` })
+      .where(eq(conversations.id, id))
+      .returning();
+    return updatedConversation;
+  }
+
+  async updateConversationContext(id: number, settings: Pick<InsertConversation, "contextStrategy" | "contextTokens">): Promise<Conversation> {
+    const [updatedConversation] = await db
+      .update(conversations)
+      .set({ ...settings, updatedAt: sql`now()` })
+      .where(eq(conversations.id, id))
+      .returning();
+    return updatedConversation;
+  }
+
+  // Messages and summaries are removed with the conversation (ON DELETE CASCADE)
   async deleteConversation(id: number): Promise<void> {
-    // First delete all messages in this conversation
-    await db
-      .delete(messages)
-      .where(eq(messages.conversationId, id));
-    
-    // Then delete the conversation
-    await db
-      .delete(conversations)
-      .where(eq(conversations.id, id));
+    await db.transaction(async (tx) => {
+      const [deletedConversation] = await tx
+        .delete(conversations)
+        .where(eq(conversations.id, id))
+        .returning({ userId: conversations.userId });
+      await this.recordDeletion(tx, deletedConversation?.userId, "conversation", id);
+    });
+  }
+
+  async getConversationByImportKey(userId: number, importKey: string): Promise<Conversation | undefined> {
+    const [conversation] = await db
+      .select()
+      .from(conversations)
+      .where(and(eq(conversations.userId, userId), eq(conversations.importKey, importKey)));
+    return conversation;
+  }
+
+  // Creates the conversation with its messages and summaries in one transaction,
+  // keeping the original timestamps and branch structure
+  async importConversation({ conversation, messages: importedMessages, summaries, activeMessageIndex }: ImportedConversation): Promise<Conversation> {
+    return db.transaction(async (tx) => {
+      const [newConversation] = await tx
+        .insert(conversations)
+        .values(conversation)
+        .returning();
+      
+      const messageIds: number[] = [];
+      const idAt = (index: number | null) => (index !== null ? messageIds[index] ?? null : null);
+      for (const { parentIndex, summarizedUntilIndex, ...message } of importedMessages) {
+        const [newMessage] = await tx
+          .insert(messages)
+          .values({
+            ...message,
+            userId: conversation.userId,
+            conversationId: newConversation.id,
+            parentId: idAt(parentIndex),
+            summarizedUntil: idAt(summarizedUntilIndex)
+          })
+          .returning({ id: messages.id });
+        messageIds.push(newMessage.id);
+      }
+      
+      for (const summary of summaries) {
+        const lastMessageId = idAt(summary.lastMessageIndex);
+        if (lastMessageId === null) continue;
+        await tx.insert(conversationSummaries).values({
+          conversationId: newConversation.id,
+          content: summary.content,
+          lastMessageId,
+          timestamp: summary.timestamp
+        });
+      }
+      
+      const [updatedConversation] = await tx
+        .update(conversations)
+        .set({
+          activeMessageId: idAt(activeMessageIndex ?? importedMessages.findLastIndex(message => message.role !== "summary")),
+          updatedAt: sql`now()`
+        })
+        .where(eq(conversations.id, newConversation.id))
+        .returning();
+      return updatedConversation;
+    });
   }
 
   // Message methods
+  // Messages on the conversation's active branch, oldest first
+  // The active branch plus the summaries of messages on it, ordered by id
   async getConversationMessages(conversationId: number): Promise<Message[]> {
+    const [conversation, tree, summaries] = await Promise.all([
+      this.getConversation(conversationId),
+      this.getConversationMessageTree(conversationId),
+      this.getSummaryMessages(conversationId)
+    ]);
+    const leafId = conversation?.activeMessageId ?? tree[tree.length - 1]?.id ?? null;
+    const branch = getBranch(tree, leafId);
+    const branchIds = new Set(branch.map(message => message.id));
+    return [
+      ...branch,
+      ...summaries.filter(summary => summary.summarizedUntil !== null && branchIds.has(summary.summarizedUntil))
+    ].sort((a, b) => a.id - b.id);
+  }
+
+  // Every message of the conversation including inactive branches, ordered by id.
+  // Summary messages are not part of the tree.
+  async getConversationMessageTree(conversationId: number): Promise<Message[]> {
     return db
       .select()
       .from(messages)
-      .where(eq(messages.conversationId, conversationId))
+      .where(and(eq(messages.conversationId, conversationId), ne(messages.role, "summary")))
       .orderBy(messages.id);
   }
 
+  // Summaries of earlier history; each refers to the last message it covers through
+  // summarizedUntil instead of having a parent
+  async getSummaryMessages(conversationId: number): Promise<Message[]> {
+    return db
+      .select()
+      .from(messages)
+      .where(and(eq(messages.conversationId, conversationId), eq(messages.role, "summary")))
+      .orderBy(messages.id);
+  }
+
+  async getMessage(id: number): Promise<Message | undefined> {
+    const [message] = await db
+      .select()
+      .from(messages)
+      .where(eq(messages.id, id));
+    return message || undefined;
+  }
+
+  async getMessageByClientId(userId: number, clientId: string): Promise<Message | undefined> {
+    const [message] = await db
+      .select()
+      .from(messages)
+      .where(and(eq(messages.userId, userId), eq(messages.clientId, clientId)));
+    return message || undefined;
+  }
+
+  // New messages continue the active branch unless parentId is given (null starts a new root),
+  // and become the end of the active branch. A message whose clientId was already stored
+  // for the user is not stored again; the existing message is returned instead.
   async createMessage(message: InsertMessage): Promise<Message> {
+    if (message.clientId && message.userId) {
+      const existing = await this.getMessageByClientId(message.userId, message.clientId);
+      if (existing) return existing;
+    }
+
+    const { newMessage, conversation } = await db.transaction(async (tx) => {
+      let parentId = message.parentId;
+      if (parentId === undefined && message.conversationId) {
+        parentId = await this.getActiveMessageId(tx, message.conversationId);
+      }
+      
+      // A concurrent request may store the same clientId first; the unique index decides
+      const [newMessage] = await tx
+        .insert(messages)
+        .values({ ...message, parentId })
+        .onConflictDoNothing({ target: [messages.userId, messages.clientId] })
+        .returning();
+      
+      if (!newMessage?.conversationId) return { newMessage, conversation: undefined };
+      const [conversation] = await tx
+        .update(conversations)
+        .set({ activeMessageId: newMessage.id, updatedAt: sql`now()` })
+        .where(eq(conversations.id, newMessage.conversationId))
+        .returning();
+      return { newMessage, conversation };
+    });
+    
+    if (!newMessage) {
+      const existing = await this.getMessageByClientId(message.userId!, message.clientId!);
+      if (!existing) throw new Error("Message with a duplicate clientId not found");
+      return existing;
+    }
+    
+    publishToUser(conversation?.userId, { type: "message-created", message: newMessage });
+    return newMessage;
+  }
+
+  // Stored outside the branch tree: no parent, and the active message stays where it is
+  async createSummaryMessage(message: InsertMessage): Promise<Message> {
     const [newMessage] = await db
       .insert(messages)
-      .values(message)
+      .values({ ...message, role: "summary", parentId: null })
       .returning();
     return newMessage;
   }
 
+  private async getActiveMessageId(tx: Transaction, conversationId: number): Promise<number | null> {
+    const [conversation] = await tx
+      .select({ activeMessageId: conversations.activeMessageId })
+      .from(conversations)
+      .where(eq(conversations.id, conversationId));
+    if (conversation?.activeMessageId) return conversation.activeMessageId;
+    
+    const [latest] = await tx
+      .select({ id: messages.id })
+      .from(messages)
+      .where(and(eq(messages.conversationId, conversationId), ne(messages.role, "summary")))
+      .orderBy(desc(messages.id))
+      .limit(1);
+    return latest?.id ?? null;
+  }
+
+  async setActiveMessage(conversationId: number, messageId: number): Promise<Conversation> {
+    const [updatedConversation] = await db
+      .update(conversations)
+      .set({ activeMessageId: messageId, updatedAt: sql`now()` })
+      .where(eq(conversations.id, conversationId))
+      .returning();
+    return updatedConversation;
+  }
+
+  // Summaries used to be stored as regular messages in the middle of the branch. Link their
+  // children (and active branches ending at them) to their parent, then detach them.
+  // Safe to run on every start.
+  async detachSummaryMessages(): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.execute(sql`
+        UPDATE ${messages} AS child SET parent_id = summary.parent_id, updated_at = now()
+        FROM ${messages} AS summary
+        WHERE child.parent_id = summary.id AND summary.role = 'summary'
+      `);
+      await tx.execute(sql`
+        UPDATE ${conversations} SET active_message_id = summary.parent_id, updated_at = now()
+        FROM ${messages} AS summary
+        WHERE ${conversations.activeMessageId} = summary.id AND summary.role = 'summary'
+      `);
+      await tx
+        .update(messages)
+        .set({ parentId: null, updatedAt: sql`now()` })
+        .where(and(eq(messages.role, "summary"), isNotNull(messages.parentId)));
+    });
+  }
+
+  async updateMessage(id: number, message: Partial<InsertMessage>): Promise<Message> {
+    const [updatedMessage] = await db
+      .update(messages)
+      .set({ ...message, updatedAt: sql`now()` })
+      .where(eq(messages.id, id))
+      .returning();
+    return updatedMessage;
+  }
+
+  // Updates the message only while it still has the given status, so concurrent requests
+  // cannot both act on it; returns undefined when another request changed it first
+  async updateMessageIfStatus(id: number, status: string, message: Partial<InsertMessage>): Promise<Message | undefined> {
+    const [updatedMessage] = await db
+      .update(messages)
+      .set({ ...message, updatedAt: sql`now()` })
+      .where(and(eq(messages.id, id), eq(messages.status, status)))
+      .returning();
+    return updatedMessage || undefined;
+  }
+
+  // Conversation summary methods
+  async getLatestConversationSummary(conversationId: number): Promise<ConversationSummary | undefined> {
+    const [summary] = await db
+      .select()
+      .from(conversationSummaries)
+      .where(eq(conversationSummaries.conversationId, conversationId))
+      .orderBy(desc(conversationSummaries.id))
+      .limit(1);
+    return summary;
+  }
+
+  async getConversationSummaries(conversationId: number): Promise<ConversationSummary[]> {
+    return db
+      .select()
+      .from(conversationSummaries)
+      .where(eq(conversationSummaries.conversationId, conversationId))
+      .orderBy(conversationSummaries.id);
+  }
+
+  // Latest summary of each of the user's conversations
+  async getUserConversationSummaries(userId: number): Promise<ConversationSummary[]> {
+    const rows = await db
+      .selectDistinctOn([conversationSummaries.conversationId], { summary: conversationSummaries })
+      .from(conversationSummaries)
+      .innerJoin(conversations, eq(conversationSummaries.conversationId, conversations.id))
+      .where(eq(conversations.userId, userId))
+      .orderBy(conversationSummaries.conversationId, desc(conversationSummaries.id));
+    return rows.map(row => row.summary);
+  }
+
+  async createConversationSummary(summary: InsertConversationSummary): Promise<ConversationSummary> {
+    const [newSummary] = await db
+      .insert(conversationSummaries)
+      .values(summary)
+      .returning();
+    return newSummary;
+  }
+
+  // Search methods
+  // Matches use the full-text indexes on messages.content and conversations.title. The 'simple'
+  // configuration does not segment CJK text, so queries containing CJK also match by substring.
+  async searchMessages(userId: number, query: SearchQuery): Promise<{ message: Message; conversation: Conversation }[]> {
+    const tsQuery = sql`websearch_to_tsquery('simple', ${query.q})`;
+    const conditions = [
+      eq(conversations.userId, userId),
+      sql`${messages.role} <> 'summary'`,
+      textMatch(sql`to_tsvector('simple', ${messages.content})`, tsQuery, messages.content, query.q),
+      ...searchFilters(query),
+    ];
+    if (query.role) conditions.push(eq(messages.role, query.role));
+    if (query.from) conditions.push(gte(messages.timestamp, query.from));
+    if (query.to) conditions.push(lte(messages.timestamp, query.to));
+
+    return db
+      .select({ message: messages, conversation: conversations })
+      .from(messages)
+      .innerJoin(conversations, eq(messages.conversationId, conversations.id))
+      .where(and(...conditions))
+      .orderBy(desc(sql`ts_rank(to_tsvector('simple', ${messages.content}), ${tsQuery})`), desc(messages.timestamp))
+      .limit(query.limit);
+  }
+
+  async searchConversationTitles(userId: number, query: SearchQuery): Promise<Conversation[]> {
+    const tsQuery = sql`websearch_to_tsquery('simple', ${query.q})`;
+    const conditions = [
+      eq(conversations.userId, userId),
+      textMatch(sql`to_tsvector('simple', ${conversations.title})`, tsQuery, conversations.title, query.q),
+      ...searchFilters(query),
+    ];
+    if (query.from) conditions.push(gte(conversations.timestamp, query.from));
+    if (query.to) conditions.push(lte(conversations.timestamp, query.to));
+
+    return db
+      .select()
+      .from(conversations)
+      .where(and(...conditions))
+      .orderBy(desc(conversations.timestamp))
+      .limit(query.limit);
+  }
+
+  // Sync methods
+  // Everything the user owns when since is null; tombstones only matter for incremental syncs
+  async getSyncChanges(userId: number, since: Date | null): Promise<SyncChanges> {
+    const changedAfter = (column: Column) => since ? gt(column, since) : undefined;
+
+    const [changedConversations, changedMessages, changedPrompts, changedTools, tombstones] = await Promise.all([
+      db
+        .select()
+        .from(conversations)
+        .where(and(eq(conversations.userId, userId), changedAfter(conversations.updatedAt)))
+        .orderBy(conversations.updatedAt),
+      db
+        .select({ message: messages })
+        .from(messages)
+        .innerJoin(conversations, eq(messages.conversationId, conversations.id))
+        .where(and(eq(conversations.userId, userId), changedAfter(messages.updatedAt)))
+        .orderBy(messages.updatedAt, messages.id),
+      db
+        .select()
+        .from(systemPrompts)
+        .where(and(eq(systemPrompts.userId, userId), changedAfter(systemPrompts.updatedAt)))
+        .orderBy(systemPrompts.updatedAt),
+      db
+        .select()
+        .from(mcpTools)
+        .where(and(eq(mcpTools.userId, userId), changedAfter(mcpTools.updatedAt)))
+        .orderBy(mcpTools.updatedAt),
+      since
+        ? db
+            .select()
+            .from(syncTombstones)
+            .where(and(eq(syncTombstones.userId, userId), gt(syncTombstones.deletedAt, since)))
+            .orderBy(syncTombstones.deletedAt)
+        : [],
+    ]);
+
+    return {
+      conversations: changedConversations,
+      messages: changedMessages.map(({ message }) => message),
+      systemPrompts: changedPrompts,
+      mcpTools: changedTools,
+      tombstones,
+    };
+  }
+
+  // Deleted rows are remembered so that sync clients can delete their copies
+  private async recordDeletion(tx: Transaction, userId: number | null | undefined, entityType: SyncEntityType, entityId: number): Promise<void> {
+    if (userId == null) return;
+    await tx.insert(syncTombstones).values({ userId, entityType, entityId });
+  }
+
   // System prompt methods
   async getSystemPrompt(id: number): Promise<SystemPrompt | undefined> {
     const [prompt] = await db
@@ -180,79 +685,85 @@ export class DatabaseStorage implements IStorage {
     return prompts.length > 0 ? prompts[0] : undefined;
   }
 
+  // Only one prompt per user can be the default (enforced by system_prompts_user_default_idx),
+  // so the old default is unset in the same transaction that sets the new one
   async createSystemPrompt(prompt: InsertSystemPrompt): Promise<SystemPrompt> {
-    // If this is set as default, unset any existing default
-    if (prompt.isDefault && prompt.userId) {
-      await db
-        .update(systemPrompts)
-        .set({ isDefault: false })
-        .where(and(
-          eq(systemPrompts.userId, prompt.userId),
-          eq(systemPrompts.isDefault, true)
-        ));
-    }
-    
-    const [newPrompt] = await db
-      .insert(systemPrompts)
-      .values(prompt)
-      .returning();
+    const newPrompt = await db.transaction(async (tx) => {
+      if (prompt.isDefault && prompt.userId) {
+        await this.unsetDefaultSystemPrompt(tx, prompt.userId);
+      }
+      const [newPrompt] = await tx
+        .insert(systemPrompts)
+        .values(prompt)
+        .returning();
+      return newPrompt;
+    });
+    publishToUser(newPrompt.userId, { type: "prompt-changed" });
     return newPrompt;
   }
 
   async updateSystemPrompt(id: number, prompt: Partial<InsertSystemPrompt>): Promise<SystemPrompt> {
-    // If this is set as default, unset any existing default
-    if (prompt.isDefault && prompt.userId) {
-      // First get all default prompts that are not this one
-      const defaultPrompts = await db
-        .select()
-        .from(systemPrompts)
-        .where(and(
-          eq(systemPrompts.userId, prompt.userId),
-          eq(systemPrompts.isDefault, true)
-        ));
-      
-      // Then unset default on all except this one
-      for (const p of defaultPrompts) {
-        if (p.id !== id) {
-          await db
-            .update(systemPrompts)
-            .set({ isDefault: false })
-            .where(eq(systemPrompts.id, p.id));
+    const updatedPrompt = await db.transaction(async (tx) => {
+      if (prompt.isDefault) {
+        const [existing] = await tx
+          .select({ userId: systemPrompts.userId })
+          .from(systemPrompts)
+          .where(eq(systemPrompts.id, id));
+        if (existing?.userId) {
+          await this.unsetDefaultSystemPrompt(tx, existing.userId);
         }
       }
-    }
-    
-    const [updatedPrompt] = await db
-      .update(systemPrompts)
-      .set(prompt)
-      .where(eq(systemPrompts.id, id))
-      .returning();
+      const [updatedPrompt] = await tx
+        .update(systemPrompts)
+        .set({ ...prompt, updatedAt: sql`now()` })
+        .where(eq(systemPrompts.id, id))
+        .returning();
+      return updatedPrompt;
+    });
+    publishToUser(updatedPrompt?.userId, { type: "prompt-changed" });
     return updatedPrompt;
   }
 
+  // Conversations using the prompt are left without one. The foreign key does the same,
+  // but clearing it here also stamps updatedAt so sync clients see the change.
   async deleteSystemPrompt(id: number): Promise<void> {
-    await db
-      .delete(systemPrompts)
-      .where(eq(systemPrompts.id, id));
+    const deletedPrompt = await db.transaction(async (tx) => {
+      await tx
+        .update(conversations)
+        .set({ systemPromptId: null, updatedAt: sql`now()` })
+        .where(eq(conversations.systemPromptId, id));
+      const [deletedPrompt] = await tx
+        .delete(systemPrompts)
+        .where(eq(systemPrompts.id, id))
+        .returning({ userId: systemPrompts.userId });
+      await this.recordDeletion(tx, deletedPrompt?.userId, "system_prompt", id);
+      return deletedPrompt;
+    });
+    publishToUser(deletedPrompt?.userId, { type: "prompt-changed" });
   }
 
   async setDefaultSystemPrompt(id: number, userId: number): Promise<SystemPrompt> {
-    // Unset any existing default
-    await db
+    const updatedPrompt = await db.transaction(async (tx) => {
+      await this.unsetDefaultSystemPrompt(tx, userId);
+      const [updatedPrompt] = await tx
+        .update(systemPrompts)
+        .set({ isDefault: true, updatedAt: sql`now()` })
+        .where(eq(systemPrompts.id, id))
+        .returning();
+      return updatedPrompt;
+    });
+    publishToUser(userId, { type: "prompt-changed" });
+    return updatedPrompt;
+  }
+
+  private async unsetDefaultSystemPrompt(tx: Transaction, userId: number): Promise<void> {
+    await tx
       .update(systemPrompts)
-      .set({ isDefault: false })
+      .set({ isDefault: false, updatedAt: sql`now()` })
       .where(and(
         eq(systemPrompts.userId, userId),
         eq(systemPrompts.isDefault, true)
       ));
-    
-    // Set new default
-    const [updatedPrompt] = await db
-      .update(systemPrompts)
-      .set({ isDefault: true })
-      .where(eq(systemPrompts.id, id))
-      .returning();
-    return updatedPrompt;
   }
   
   // MCP Tool methods
@@ -288,32 +799,278 @@ export class DatabaseStorage implements IStorage {
       .insert(mcpTools)
       .values(tool)
       .returning();
+    publishToUser(newTool.userId, { type: "tools-changed" });
     return newTool;
   }
 
   async updateMcpTool(id: number, tool: Partial<InsertMcpTool>): Promise<McpTool> {
     const [updatedTool] = await db
       .update(mcpTools)
-      .set(tool)
+      .set({ ...tool, updatedAt: sql`now()` })
       .where(eq(mcpTools.id, id))
       .returning();
+    publishToUser(updatedTool?.userId, { type: "tools-changed" });
     return updatedTool;
   }
 
+  // The tool is also removed from the conversations that enabled it
   async deleteMcpTool(id: number): Promise<void> {
-    await db
-      .delete(mcpTools)
-      .where(eq(mcpTools.id, id));
+    const { deletedTool, updatedConversations } = await db.transaction(async (tx) => {
+      const usingTool = await tx
+        .select()
+        .from(conversations)
+        .where(sql`${conversations.enabledTools} @> ${JSON.stringify([id])}::jsonb`);
+      const updatedConversations: Conversation[] = [];
+      for (const conversation of usingTool) {
+        const [updatedConversation] = await tx
+          .update(conversations)
+          .set({ enabledTools: conversation.enabledTools.filter((toolId) => toolId !== id), updatedAt: sql`now()` })
+          .where(eq(conversations.id, conversation.id))
+          .returning();
+        updatedConversations.push(updatedConversation);
+      }
+
+      const [deletedTool] = await tx
+        .delete(mcpTools)
+        .where(eq(mcpTools.id, id))
+        .returning({ userId: mcpTools.userId });
+      await this.recordDeletion(tx, deletedTool?.userId, "mcp_tool", id);
+      return { deletedTool, updatedConversations };
+    });
+
+    publishToUser(deletedTool?.userId, { type: "tools-changed" });
+    for (const conversation of updatedConversations) {
+      publishToUser(conversation.userId, { type: "tools-changed", conversation });
+    }
   }
   
   async toggleMcpToolStatus(id: number, isEnabled: boolean): Promise<McpTool> {
     const [updatedTool] = await db
       .update(mcpTools)
-      .set({ isEnabled })
+      .set({ isEnabled, updatedAt: sql`now()` })
       .where(eq(mcpTools.id, id))
       .returning();
+    publishToUser(updatedTool?.userId, { type: "tools-changed" });
     return updatedTool;
   }
+  
+  // MCP Server methods
+  async getMcpServer(id: number): Promise<McpServer | undefined> {
+    const [server] = await db
+      .select()
+      .from(mcpServers)
+      .where(eq(mcpServers.id, id));
+    return server || undefined;
+  }
+
+  async getMcpServerByName(name: string): Promise<McpServer | undefined> {
+    const [server] = await db
+      .select()
+      .from(mcpServers)
+      .where(eq(mcpServers.name, name));
+    return server || undefined;
+  }
+
+  async getMcpServers(): Promise<McpServer[]> {
+    return db
+      .select()
+      .from(mcpServers)
+      .orderBy(mcpServers.id);
+  }
+
+  // Whether a server was ever created, even if all of them have been deleted since:
+  // the id sequence is still unused until the first insert
+  async hasCreatedMcpServers(): Promise<boolean> {
+    const result = await db.execute(sql`
+      SELECT last_value FROM pg_sequences
+      WHERE schemaname = current_schema() AND sequencename = 'mcp_servers_id_seq'
+    `);
+    return result.rows.length > 0 && result.rows[0].last_value !== null;
+  }
+
+  async createMcpServer(server: InsertMcpServer): Promise<McpServer> {
+    const [newServer] = await db
+      .insert(mcpServers)
+      .values(server)
+      .returning();
+    return newServer;
+  }
+
+  async updateMcpServer(id: number, server: Partial<InsertMcpServer>): Promise<McpServer> {
+    const [updatedServer] = await db
+      .update(mcpServers)
+      .set(server)
+      .where(eq(mcpServers.id, id))
+      .returning();
+    return updatedServer;
+  }
+
+  async deleteMcpServer(id: number): Promise<void> {
+    await db
+      .delete(mcpServers)
+      .where(eq(mcpServers.id, id));
+  }
+  
+  // LLM provider methods
+  async getLlmProvider(id: number): Promise<LlmProvider | undefined> {
+    const [provider] = await db
+      .select()
+      .from(llmProviders)
+      .where(eq(llmProviders.id, id));
+    return provider || undefined;
+  }
+
+  async getLlmProviders(): Promise<LlmProvider[]> {
+    return db
+      .select()
+      .from(llmProviders)
+      .orderBy(llmProviders.id);
+  }
+
+  async createLlmProvider(provider: InsertLlmProvider): Promise<LlmProvider> {
+    const [newProvider] = await db
+      .insert(llmProviders)
+      .values(provider)
+      .returning();
+    return newProvider;
+  }
+
+  async updateLlmProvider(id: number, provider: Partial<InsertLlmProvider>): Promise<LlmProvider> {
+    const [updatedProvider] = await db
+      .update(llmProviders)
+      .set(provider)
+      .where(eq(llmProviders.id, id))
+      .returning();
+    return updatedProvider;
+  }
+
+  // The provider's models are removed with it (ON DELETE CASCADE)
+  async deleteLlmProvider(id: number): Promise<void> {
+    await db
+      .delete(llmProviders)
+      .where(eq(llmProviders.id, id));
+  }
+  
+  // LLM model methods
+  async getLlmModel(id: number): Promise<LlmModel | undefined> {
+    const [model] = await db
+      .select()
+      .from(llmModels)
+      .where(eq(llmModels.id, id));
+    return model || undefined;
+  }
+
+  async getLlmModelByName(name: string): Promise<LlmModel | undefined> {
+    const [model] = await db
+      .select()
+      .from(llmModels)
+      .where(eq(llmModels.name, name));
+    return model || undefined;
+  }
+
+  async getLlmModels(): Promise<LlmModel[]> {
+    return db
+      .select()
+      .from(llmModels)
+      .orderBy(llmModels.id);
+  }
+
+  async getDefaultLlmModel(): Promise<LlmModel | undefined> {
+    const [model] = await db
+      .select()
+      .from(llmModels)
+      .where(eq(llmModels.isDefault, true));
+    return model || undefined;
+  }
+
+  async createLlmModel(model: InsertLlmModel): Promise<LlmModel> {
+    return db.transaction(async (tx) => {
+      // Only one model can be the default
+      if (model.isDefault) {
+        await tx
+          .update(llmModels)
+          .set({ isDefault: false })
+          .where(eq(llmModels.isDefault, true));
+      }
+      
+      const [newModel] = await tx
+        .insert(llmModels)
+        .values(model)
+        .returning();
+      return newModel;
+    });
+  }
+
+  async updateLlmModel(id: number, model: Partial<InsertLlmModel>): Promise<LlmModel> {
+    return db.transaction(async (tx) => {
+      // Only one model can be the default
+      if (model.isDefault) {
+        await tx
+          .update(llmModels)
+          .set({ isDefault: false })
+          .where(eq(llmModels.isDefault, true));
+      }
+      
+      const [updatedModel] = await tx
+        .update(llmModels)
+        .set(model)
+        .where(eq(llmModels.id, id))
+        .returning();
+      return updatedModel;
+    });
+  }
+
+  async deleteLlmModel(id: number): Promise<void> {
+    await db
+      .delete(llmModels)
+      .where(eq(llmModels.id, id));
+  }
+  
+  // API token methods
+  async getApiToken(id: number): Promise<ApiToken | undefined> {
+    const [token] = await db
+      .select()
+      .from(apiTokens)
+      .where(eq(apiTokens.id, id));
+    return token || undefined;
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await db
+      .select()
+      .from(apiTokens)
+      .where(eq(apiTokens.tokenHash, tokenHash));
+    return token || undefined;
+  }
+
+  async getUserApiTokens(userId: number): Promise<ApiToken[]> {
+    return db
+      .select()
+      .from(apiTokens)
+      .where(eq(apiTokens.userId, userId))
+      .orderBy(desc(apiTokens.timestamp));
+  }
+
+  async createApiToken(token: InsertApiToken): Promise<ApiToken> {
+    const [newToken] = await db
+      .insert(apiTokens)
+      .values(token)
+      .returning();
+    return newToken;
+  }
+
+  async touchApiToken(id: number): Promise<void> {
+    await db
+      .update(apiTokens)
+      .set({ lastUsedAt: new Date() })
+      .where(eq(apiTokens.id, id));
+  }
+
+  async deleteApiToken(id: number): Promise<void> {
+    await db
+      .delete(apiTokens)
+      .where(eq(apiTokens.id, id));
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,35 @@
+import type { SyncResponse } from "@shared/schema";
+import { storage } from "./storage";
+
+// 增量同步：返回游标之后变化的对话、消息、系统提示和MCP工具，以及删除记录。
+// 游标是返回的最新变化时间；不带游标时返回用户的全部数据，客户端可以据此重建本地状态
+
+// 每次同步都重新读取游标之前的这段时间：updatedAt 是写入所在事务开始的时间，
+// 开始得早、提交得晚的写入（例如导入对话）不会因为游标已经越过而漏掉
+const SYNC_OVERLAP_MS = 60 * 1000;
+
+export async function getSyncChanges(userId: number, since?: Date): Promise<SyncResponse> {
+  const changes = await storage.getSyncChanges(userId, since ? new Date(since.getTime() - SYNC_OVERLAP_MS) : null);
+
+  // 没有新的变化时游标保持不变
+  let newest = since?.getTime() ?? 0;
+  for (const row of [...changes.conversations, ...changes.messages, ...changes.systemPrompts, ...changes.mcpTools]) {
+    newest = Math.max(newest, row.updatedAt.getTime());
+  }
+  for (const tombstone of changes.tombstones) {
+    newest = Math.max(newest, tombstone.deletedAt.getTime());
+  }
+
+  return {
+    cursor: new Date(newest).toISOString(),
+    conversations: changes.conversations,
+    messages: changes.messages,
+    systemPrompts: changes.systemPrompts,
+    mcpTools: changes.mcpTools,
+    deleted: changes.tombstones.map((tombstone) => ({
+      entityType: tombstone.entityType,
+      id: tombstone.entityId,
+      deletedAt: tombstone.deletedAt,
+    })),
+  };
+}
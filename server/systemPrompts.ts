@@ -1,3 +1,5 @@
+import { storage } from "./storage";
+
 // 预定义的系统提示模板
 
 export const DEFAULT_SYSTEM_PROMPTS = [
@@ -26,4 +28,23 @@ export const DEFAULT_SYSTEM_PROMPTS = [
     content: "你是一个头脑风暴助手，帮助用户探索想法和创新解决方案。提供多样化的建议，鼓励创造性思维，并帮助用户扩展他们的思路。避免过早批评想法，而是帮助发展和改进它们。",
     isDefault: false
   }
-];
\ No newline at end of file
+];
+
+// Initialize default system prompts for a user
+export async function initializeSystemPrompts(userId: number) {
+  try {
+    // Check if user already has system prompts
+    const existingPrompts = await storage.getUserSystemPrompts(userId);
+    if (existingPrompts.length > 0) return;
+    
+    // Add default system prompts
+    for (const prompt of DEFAULT_SYSTEM_PROMPTS) {
+      await storage.createSystemPrompt({
+        ...prompt,
+        userId
+      });
+    }
+  } catch (error) {
+    console.error("Failed to initialize system prompts:", error);
+  }
+}
@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, index, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -6,6 +7,8 @@ export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  // Admins manage server-wide settings: MCP servers, LLM providers and models
+  isAdmin: boolean("is_admin").default(false).notNull(),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
@@ -16,15 +19,51 @@ export const insertUserSchema = createInsertSchema(users).pick({
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+// API tokens schema
+export const apiTokenScopes = ["chat", "read", "tools:manage"] as const;
+export type ApiTokenScope = typeof apiTokenScopes[number];
+
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  name: text("name").notNull(),
+  // SHA-256 of the token; the plaintext is only shown once when issued
+  tokenHash: text("token_hash").notNull().unique(),
+  // First characters of the token so users can tell tokens apart
+  tokenPrefix: text("token_prefix").notNull(),
+  scopes: jsonb("scopes").$type<ApiTokenScope[]>().default([]).notNull(),
+  expiresAt: timestamp("expires_at"), // null never expires
+  lastUsedAt: timestamp("last_used_at"),
+  timestamp: timestamp("timestamp").defaultNow().notNull(),
+});
+
+export const insertApiTokenSchema = createInsertSchema(apiTokens, {
+  scopes: z.array(z.enum(apiTokenScopes)).optional(),
+}).pick({
+  userId: true,
+  name: true,
+  tokenHash: true,
+  tokenPrefix: true,
+  scopes: true,
+  expiresAt: true,
+});
+
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type InsertApiToken = z.infer<typeof insertApiTokenSchema>;
+
 // System prompts schema
 export const systemPrompts = pgTable("system_prompts", {
   id: serial("id").primaryKey(),
   title: text("title").notNull(),
   content: text("content").notNull(),
-  userId: integer("user_id").references(() => users.id),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
   isDefault: boolean("is_default").default(false),
   timestamp: timestamp("timestamp").defaultNow().notNull(),
-});
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  // At most one default prompt per user
+  uniqueIndex("system_prompts_user_default_idx").on(table.userId).where(sql`${table.isDefault}`),
+]);
 
 export const insertSystemPromptSchema = createInsertSchema(systemPrompts).pick({
   title: true,
@@ -43,9 +82,13 @@ export const mcpTools = pgTable("mcp_tools", {
   description: text("description").notNull(),
   icon: text("icon").default("tool"),
   configuration: jsonb("configuration").notNull(),
-  userId: integer("user_id").references(() => users.id),
+  // The MCP server and tool this row exposes to the model
+  serverName: text("server_name"),
+  toolName: text("tool_name"),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
   isEnabled: boolean("is_enabled").default(true),
   timestamp: timestamp("timestamp").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
 export const insertMcpToolSchema = createInsertSchema(mcpTools).pick({
@@ -53,6 +96,8 @@ export const insertMcpToolSchema = createInsertSchema(mcpTools).pick({
   description: true,
   icon: true,
   configuration: true,
+  serverName: true,
+  toolName: true,
   userId: true,
   isEnabled: true,
 });
@@ -60,21 +105,129 @@ export const insertMcpToolSchema = createInsertSchema(mcpTools).pick({
 export type McpTool = typeof mcpTools.$inferSelect;
 export type InsertMcpTool = z.infer<typeof insertMcpToolSchema>;
 
+// MCP servers schema
+export const mcpServers = pgTable("mcp_servers", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  // For stdio servers this is the executable; for sse/streamable-http it is the server URL
+  command: text("command").notNull(),
+  args: jsonb("args").$type<string[]>().default([]).notNull(),
+  env: jsonb("env").$type<Record<string, string>>().default({}).notNull(),
+  transport: text("transport").default("stdio").notNull(), // 'stdio', 'sse' or 'streamable-http'
+  disabled: boolean("disabled").default(false).notNull(),
+  autoApprove: jsonb("auto_approve").$type<string[]>().default([]).notNull(),
+  timestamp: timestamp("timestamp").defaultNow().notNull(),
+});
+
+export const insertMcpServerSchema = createInsertSchema(mcpServers, {
+  args: z.array(z.string()).optional(),
+  env: z.record(z.string()).optional(),
+  autoApprove: z.array(z.string()).optional(),
+}).pick({
+  name: true,
+  command: true,
+  args: true,
+  env: true,
+  transport: true,
+  disabled: true,
+  autoApprove: true,
+});
+
+export type McpServer = typeof mcpServers.$inferSelect;
+export type InsertMcpServer = z.infer<typeof insertMcpServerSchema>;
+
+// LLM providers schema
+export const llmProviders = pgTable("llm_providers", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  type: text("type").notNull(), // 'openai-compatible', 'anthropic' or 'mock'
+  baseUrl: text("base_url"),
+  // When null the provider falls back to OPENAI_API_KEY / ANTHROPIC_API_KEY
+  apiKey: text("api_key"),
+  timestamp: timestamp("timestamp").defaultNow().notNull(),
+});
+
+export const insertLlmProviderSchema = createInsertSchema(llmProviders).pick({
+  name: true,
+  type: true,
+  baseUrl: true,
+  apiKey: true,
+});
+
+export type LlmProvider = typeof llmProviders.$inferSelect;
+export type InsertLlmProvider = z.infer<typeof insertLlmProviderSchema>;
+
+// LLM models schema
+export const llmModels = pgTable("llm_models", {
+  id: serial("id").primaryKey(),
+  // Model id sent to the provider's API; conversations reference models by this name
+  name: text("name").notNull().unique(),
+  displayName: text("display_name"),
+  providerId: integer("provider_id").references(() => llmProviders.id, { onDelete: "cascade" }).notNull(),
+  // Context window in tokens; null uses DEFAULT_CONTEXT_WINDOW
+  contextWindow: integer("context_window"),
+  isDefault: boolean("is_default").default(false).notNull(),
+  timestamp: timestamp("timestamp").defaultNow().notNull(),
+});
+
+export const insertLlmModelSchema = createInsertSchema(llmModels).pick({
+  name: true,
+  displayName: true,
+  providerId: true,
+  contextWindow: true,
+  isDefault: true,
+});
+
+export type LlmModel = typeof llmModels.$inferSelect;
+export type InsertLlmModel = z.infer<typeof insertLlmModelSchema>;
+
+// How older messages are handled once a conversation no longer fits the model context:
+// 'truncate' drops the oldest turns, 'summarize' folds them into a stored summary message.
+// The system prompt is always kept.
+export const contextStrategies = ["truncate", "summarize"] as const;
+export type ContextStrategy = typeof contextStrategies[number];
+
+// Where a conversation title came from: 'default' (placeholder or the first message),
+// 'generated' by the model after the first reply, or 'user' after a manual rename.
+// Only 'default' titles are replaced automatically.
+export const conversationTitleSources = ["default", "generated", "user"] as const;
+export type ConversationTitleSource = typeof conversationTitleSources[number];
+
 // Conversations schema
 export const conversations = pgTable("conversations", {
   id: serial("id").primaryKey(),
   title: text("title").notNull(),
-  userId: integer("user_id").references(() => users.id),
-  systemPromptId: integer("system_prompt_id").references(() => systemPrompts.id),
+  titleSource: text("title_source").default("default").notNull(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
+  // Deleting the prompt leaves the conversation without one
+  systemPromptId: integer("system_prompt_id").references(() => systemPrompts.id, { onDelete: "set null" }),
   enabledTools: jsonb("enabled_tools").$type<number[]>().default([]).notNull(),
+  // llm_models.name; null uses the default model
+  model: text("model"),
+  contextStrategy: text("context_strategy").default("truncate").notNull(),
+  // Upper bound for the history sent to the model; null uses the model's context window
+  contextTokens: integer("context_tokens"),
+  // Last message of the active branch; null uses the newest message that is not a summary
+  activeMessageId: integer("active_message_id").references((): AnyPgColumn => messages.id, { onDelete: "set null" }),
+  // Source of an imported conversation; importing the same source again is skipped
+  importKey: text("import_key"),
   timestamp: timestamp("timestamp").defaultNow().notNull(),
-});
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  // Full-text search; must match the expression used in storage.searchConversationTitles
+  index("conversations_title_search_idx").using("gin", sql`to_tsvector('simple', ${table.title})`),
+  uniqueIndex("conversations_user_import_key_idx").on(table.userId, table.importKey),
+]);
 
 export const insertConversationSchema = createInsertSchema(conversations).pick({
   title: true,
+  titleSource: true,
   userId: true,
   systemPromptId: true,
   enabledTools: true,
+  model: true,
+  contextStrategy: true,
+  contextTokens: true,
 });
 
 export type Conversation = typeof conversations.$inferSelect;
@@ -83,14 +236,31 @@ export type InsertConversation = z.infer<typeof insertConversationSchema>;
 // Chat messages schema
 export const messages = pgTable("messages", {
   id: serial("id").primaryKey(),
-  role: text("role").notNull(), // 'system', 'user', 'assistant' or 'tool'
+  role: text("role").notNull(), // 'system', 'user', 'assistant', 'tool' or 'summary'
   content: text("content").notNull(),
-  userId: integer("user_id").references(() => users.id),
-  conversationId: integer("conversation_id").references(() => conversations.id),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
+  conversationId: integer("conversation_id").references(() => conversations.id, { onDelete: "cascade" }),
+  // Previous message in the branch; siblings are alternative versions (edits, regenerations)
+  parentId: integer("parent_id").references((): AnyPgColumn => messages.id, { onDelete: "cascade" }),
   toolCall: jsonb("tool_call"),
   toolResult: jsonb("tool_result"),
+  // Tool messages: 'awaiting_approval', 'running' (approved, result not stored yet), 'approved' or
+  // 'rejected'; null when no approval was needed.
+  // Assistant messages: 'interrupted' when the generation was cancelled and only partial output was kept
+  status: text("status"),
+  // Summary messages only: id of the last message folded into the summary
+  summarizedUntil: integer("summarized_until").references((): AnyPgColumn => messages.id, { onDelete: "set null" }),
+  // Idempotency key generated by the client for user messages; a resent message
+  // (e.g. queued while offline) is stored only once per user
+  clientId: text("client_id"),
   timestamp: timestamp("timestamp").defaultNow().notNull(),
-});
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  // Full-text search; must match the expression used in storage.searchMessages
+  index("messages_content_search_idx").using("gin", sql`to_tsvector('simple', ${table.content})`),
+  uniqueIndex("messages_user_client_id_idx").on(table.userId, table.clientId),
+  index("messages_updated_at_idx").on(table.updatedAt),
+]);
 
 export const insertMessageSchema = createInsertSchema(messages).pick({
   role: true,
@@ -99,18 +269,78 @@ export const insertMessageSchema = createInsertSchema(messages).pick({
   conversationId: true,
   toolCall: true,
   toolResult: true,
+  status: true,
+  summarizedUntil: true,
+  parentId: true,
+  clientId: true,
 });
 
 export type Message = typeof messages.$inferSelect;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 
+// Tool message statuses whose result is not stored yet
+export const pendingToolStatuses: (string | null)[] = ["awaiting_approval", "running"];
+
+// GET /api/sync returns conversations, messages, system prompts and MCP tools whose updatedAt
+// is after the client's cursor. No trigger maintains updatedAt: every storage method that
+// updates one of these rows must set updatedAt: sql`now()`, or the change is never synced.
+
+// Record of a deleted row, kept so that sync clients can delete their copy (GET /api/sync).
+// Deleting a conversation records only the conversation: its messages go with it.
+export const syncEntityTypes = ["conversation", "message", "system_prompt", "mcp_tool"] as const;
+export type SyncEntityType = typeof syncEntityTypes[number];
+
+export const syncTombstones = pgTable("sync_tombstones", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  entityType: text("entity_type").$type<SyncEntityType>().notNull(),
+  entityId: integer("entity_id").notNull(),
+  deletedAt: timestamp("deleted_at").defaultNow().notNull(),
+}, (table) => [
+  index("sync_tombstones_user_deleted_at_idx").on(table.userId, table.deletedAt),
+]);
+
+export type SyncTombstone = typeof syncTombstones.$inferSelect;
+
+// Rolling conversation summaries, refreshed in the background every few messages.
+// Each summary covers the conversation up to and including lastMessageId.
+export const conversationSummaries = pgTable("conversation_summaries", {
+  id: serial("id").primaryKey(),
+  conversationId: integer("conversation_id").references(() => conversations.id, { onDelete: "cascade" }).notNull(),
+  content: text("content").notNull(),
+  lastMessageId: integer("last_message_id").references(() => messages.id, { onDelete: "cascade" }).notNull(),
+  timestamp: timestamp("timestamp").defaultNow().notNull(),
+});
+
+export const insertConversationSummarySchema = createInsertSchema(conversationSummaries).pick({
+  conversationId: true,
+  content: true,
+  lastMessageId: true,
+});
+
+export type ConversationSummary = typeof conversationSummaries.$inferSelect;
+export type InsertConversationSummary = z.infer<typeof insertConversationSummarySchema>;
+
+// Tool call stored in messages.toolCall. Assistant messages that requested tools
+// store { calls: ToolCallRecord[] }; each resulting 'tool' message stores one record.
+export interface ToolCallRecord {
+  id?: string; // tool_call_id generated by the model
+  toolId?: number; // matching mcp_tools row, if any
+  name: string; // tool name on its MCP server
+  serverName?: string; // MCP server providing the tool; unset for unknown tools
+  parameters: Record<string, any>;
+}
+
 // Schema for chat completion requests
 export const chatCompletionSchema = z.object({
   message: z.string().nonempty("Message cannot be empty"),
   conversationId: z.number().optional(),
   systemPromptId: z.number().optional(),
-  userId: z.number().optional(),
   useTool: z.boolean().optional(),
+  model: z.string().optional(),
+  // Idempotency key for the user message. Sending the same key again does not store the
+  // message twice, and returns the existing reply if there is one
+  clientId: z.string().max(100).optional(),
 });
 
 export type ChatCompletionRequest = z.infer<typeof chatCompletionSchema>;
@@ -120,7 +350,6 @@ export const systemPromptSchema = z.object({
   title: z.string().nonempty("Title cannot be empty"),
   content: z.string().nonempty("Content cannot be empty"),
   isDefault: z.boolean().optional(),
-  userId: z.number().optional(),
 });
 
 export type SystemPromptRequest = z.infer<typeof systemPromptSchema>;
@@ -131,8 +360,9 @@ export const mcpToolSchema = z.object({
   description: z.string().nonempty("Description cannot be empty"),
   icon: z.string().optional(),
   configuration: z.record(z.any()).or(z.array(z.any())),
+  serverName: z.string().nonempty("Server name cannot be empty"),
+  toolName: z.string().nonempty("Tool name cannot be empty"),
   isEnabled: z.boolean().optional(),
-  userId: z.number().optional(),
 });
 
 export type McpToolRequest = z.infer<typeof mcpToolSchema>;
@@ -142,7 +372,222 @@ export const mcpToolCallSchema = z.object({
   toolId: z.number(),
   conversationId: z.number(),
   parameters: z.record(z.any()).or(z.array(z.any())),
-  userId: z.number().optional(),
 });
 
 export type McpToolCallRequest = z.infer<typeof mcpToolCallSchema>;
+
+// Schema for MCP server requests
+export const mcpServerTransports = ["stdio", "sse", "streamable-http"] as const;
+
+export const mcpServerSchema = z.object({
+  name: z.string().nonempty("Name cannot be empty"),
+  command: z.string().nonempty("Command cannot be empty"),
+  args: z.array(z.string()).optional(),
+  env: z.record(z.string()).optional(),
+  transport: z.enum(mcpServerTransports).optional(),
+  disabled: z.boolean().optional(),
+  autoApprove: z.array(z.string()).optional(),
+});
+
+export type McpServerRequest = z.infer<typeof mcpServerSchema>;
+
+// Schema for tool call approval requests
+export const toolApprovalSchema = z.object({
+  parameters: z.record(z.any()).optional(),
+});
+
+export type ToolApprovalRequest = z.infer<typeof toolApprovalSchema>;
+
+export const toolRejectionSchema = z.object({
+  reason: z.string().optional(),
+});
+
+export type ToolRejectionRequest = z.infer<typeof toolRejectionSchema>;
+
+// Schemas for branching: regenerate an assistant reply, or fork from an edited user message
+export const messageRegenerateSchema = z.object({
+  systemPromptId: z.number().optional(),
+  useTool: z.boolean().optional(),
+});
+
+export type MessageRegenerateRequest = z.infer<typeof messageRegenerateSchema>;
+
+export const messageForkSchema = messageRegenerateSchema.extend({
+  content: z.string().nonempty("Message cannot be empty"),
+});
+
+export type MessageForkRequest = z.infer<typeof messageForkSchema>;
+
+// Schema for LLM provider requests
+export const llmProviderTypes = ["openai-compatible", "anthropic", "mock"] as const;
+
+export const llmProviderSchema = z.object({
+  name: z.string().nonempty("Name cannot be empty"),
+  type: z.enum(llmProviderTypes),
+  baseUrl: z.string().url().nullable().optional(),
+  apiKey: z.string().nullable().optional(),
+});
+
+export type LlmProviderRequest = z.infer<typeof llmProviderSchema>;
+
+// Schema for LLM model requests
+export const llmModelSchema = z.object({
+  name: z.string().nonempty("Name cannot be empty"),
+  displayName: z.string().nullable().optional(),
+  providerId: z.number(),
+  contextWindow: z.number().int().positive().nullable().optional(),
+  isDefault: z.boolean().optional(),
+});
+
+export type LlmModelRequest = z.infer<typeof llmModelSchema>;
+
+// Schema for API token requests
+export const apiTokenSchema = z.object({
+  name: z.string().nonempty("Name cannot be empty"),
+  scopes: z.array(z.enum(apiTokenScopes)).nonempty("At least one scope is required"),
+  expiresInDays: z.number().int().positive().optional(),
+});
+
+export type ApiTokenRequest = z.infer<typeof apiTokenSchema>;
+
+// Conversation export (GET /api/conversations/:id/export). Markdown and HTML render the
+// active branch for reading; JSON contains every message and can be imported again.
+export const conversationExportFormats = ["md", "json", "html"] as const;
+export type ConversationExportFormat = typeof conversationExportFormats[number];
+
+export const conversationExportQuerySchema = z.object({
+  format: z.enum(conversationExportFormats).default("md"),
+});
+
+export const CONVERSATION_EXPORT_VERSION = 1;
+
+// JSON export, also accepted by the import endpoint. Message ids are only meaningful within
+// the file: parentId, summarizedUntil, activeMessageId and summary lastMessageId refer to them.
+export const conversationExportSchema = z.object({
+  version: z.literal(CONVERSATION_EXPORT_VERSION),
+  exportedAt: z.string(),
+  conversation: z.object({
+    title: z.string(),
+    titleSource: z.string(),
+    model: z.string().nullable(),
+    contextStrategy: z.string(),
+    contextTokens: z.number().int().nullable(),
+    activeMessageId: z.number().int().nullable(),
+    timestamp: z.string(),
+  }),
+  systemPrompt: z.object({ title: z.string(), content: z.string() }).nullable(),
+  messages: z.array(z.object({
+    id: z.number().int(),
+    role: z.string(),
+    content: z.string(),
+    parentId: z.number().int().nullable(),
+    toolCall: z.unknown(),
+    toolResult: z.unknown(),
+    status: z.string().nullable(),
+    summarizedUntil: z.number().int().nullable(),
+    timestamp: z.string(),
+  })),
+  summaries: z.array(z.object({
+    content: z.string(),
+    lastMessageId: z.number().int(),
+    timestamp: z.string(),
+  })),
+});
+
+export type ConversationExport = z.infer<typeof conversationExportSchema>;
+
+// Schema for import requests (POST /api/conversations/import). data is a parsed export file:
+// this app's JSON export (or an array of them), or ChatGPT's conversations.json.
+// With dryRun nothing is written and the response only previews the result.
+export const conversationImportSchema = z.object({
+  data: z.unknown(),
+  dryRun: z.boolean().optional(),
+});
+
+export type ConversationImportRequest = z.infer<typeof conversationImportSchema>;
+
+// Import outcome for one conversation in the file
+export interface ConversationImportItem {
+  title: string;
+  source: "app" | "chatgpt";
+  messageCount: number;
+  // create: new (or would be created in a dry run); skip: imported before; invalid: could not be read
+  status: "create" | "skip" | "invalid";
+  // The created conversation, or the existing one for skipped items
+  conversationId?: number;
+  error?: string;
+}
+
+// Schema for search requests (GET /api/search). Dates are inclusive bounds on the
+// message timestamp; tool limits results to conversations where that tool was called.
+export const searchQuerySchema = z.object({
+  q: z.string().trim().nonempty("Search query cannot be empty"),
+  role: z.enum(["user", "assistant", "tool"]).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  systemPromptId: z.coerce.number().int().optional(),
+  tool: z.string().nonempty().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(30),
+});
+
+export type SearchQuery = z.infer<typeof searchQuerySchema>;
+
+// A search hit: a message, or a conversation whose title matched (messageId is null)
+export interface SearchResult {
+  conversationId: number;
+  conversationTitle: string;
+  messageId: number | null;
+  role: string | null;
+  // Excerpt of the matching text; highlights are [start, end) offsets of matched terms
+  snippet: string;
+  highlights: [number, number][];
+  timestamp: Date;
+}
+
+// Schema for OpenAI-compatible chat completion requests (/v1/chat/completions).
+// Client-side tools are not supported; enabled MCP tools run on the server instead.
+const openAIMessageContentSchema = z.union([
+  z.string(),
+  z.array(z.object({ type: z.string(), text: z.string().optional() }).passthrough()),
+]).nullable().optional();
+
+export const openAIChatCompletionSchema = z.object({
+  model: z.string().nonempty("model is required"),
+  messages: z.array(z.object({
+    role: z.enum(["system", "developer", "user", "assistant", "tool"]),
+    content: openAIMessageContentSchema,
+  }).passthrough()).nonempty("messages cannot be empty"),
+  stream: z.boolean().optional(),
+}).passthrough();
+
+export type OpenAIChatCompletionRequest = z.infer<typeof openAIChatCompletionSchema>;
+
+// Schema for incremental sync requests (GET /api/sync). since is the cursor returned by the
+// previous sync; without it the response is the user's full state.
+export const syncQuerySchema = z.object({
+  since: z.preprocess((value) => value === "" ? undefined : value, z.coerce.date().optional()),
+});
+
+export type SyncQuery = z.infer<typeof syncQuerySchema>;
+
+// Everything changed since the cursor. A change may be returned again by a later sync,
+// so clients should apply rows as upserts by id. deleted is empty for a full sync.
+export interface SyncResponse {
+  cursor: string;
+  conversations: Conversation[];
+  messages: Message[];
+  systemPrompts: SystemPrompt[];
+  mcpTools: McpTool[];
+  deleted: { entityType: SyncEntityType; id: number; deletedAt: Date }[];
+}
+
+// Realtime sync: the server pushes these over the WebSocket at REALTIME_PATH to every
+// connected client of the user who owns the changed data (other tabs and devices).
+export const REALTIME_PATH = "/ws";
+
+export type RealtimeEvent =
+  | { type: "message-created"; message: Message }
+  | { type: "conversation-renamed"; conversation: Conversation }
+  // The user's MCP tools changed, or the tools enabled for one conversation
+  | { type: "tools-changed"; conversation?: Conversation }
+  | { type: "prompt-changed" };